@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface CheckpointFile {
+  // Relative to the workspace root, with forward slashes
+  path: string;
+  // False when the run created the file, so restoring deletes it
+  existed: boolean;
+  snapshot?: string;
+}
+
+// Contents of every file a run touched, as they were before the run
+export interface Checkpoint {
+  id: string;
+  createdAt: string;
+  request: string;
+  sessionId?: string;
+  files: CheckpointFile[];
+}
+
+export interface RestoreResult {
+  undone: Checkpoint[];
+  restored: string[];
+  deleted: string[];
+}
+
+const manifestFile = (dir: string, id: string) => path.join(dir, id, 'manifest.json');
+
+// Newest first
+export const listCheckpoints = (dir: string): Checkpoint[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter(id => fs.existsSync(manifestFile(dir, id)))
+    .map(id => JSON.parse(fs.readFileSync(manifestFile(dir, id), 'utf-8')) as Checkpoint)
+    .sort((a, b) => Number(b.id) - Number(a.id));
+};
+
+// Ids are sequential numbers so they are easy to type ("restore 3")
+export const createCheckpoint = (dir: string, request: string, sessionId?: string): Checkpoint => {
+  const latest = listCheckpoints(dir)[0];
+  return {
+    id: String(latest ? Number(latest.id) + 1 : 1),
+    createdAt: new Date().toISOString(),
+    request,
+    sessionId,
+    files: [],
+  };
+};
+
+// Records the current state of a file before its first write in this run.
+// The checkpoint is only written to disk once it holds at least one file.
+export const captureFile = (dir: string, checkpoint: Checkpoint, root: string, relativePath: string): void => {
+  if (checkpoint.files.some(file => file.path === relativePath)) return;
+  const absolute = path.join(root, relativePath);
+  const checkpointDir = path.join(dir, checkpoint.id);
+  fs.mkdirSync(checkpointDir, { recursive: true });
+  const entry: CheckpointFile = { path: relativePath, existed: fs.existsSync(absolute) };
+  if (entry.existed) {
+    entry.snapshot = `${checkpoint.files.length}.snapshot`;
+    fs.copyFileSync(absolute, path.join(checkpointDir, entry.snapshot));
+  }
+  checkpoint.files.push(entry);
+  fs.writeFileSync(manifestFile(dir, checkpoint.id), JSON.stringify(checkpoint, null, 2));
+};
+
+// Removes directories left empty after deleting a file, stopping at the workspace root
+const removeEmptyParents = (root: string, filePath: string) => {
+  let current = path.dirname(filePath);
+  while (path.relative(root, current) && !path.relative(root, current).startsWith('..') && fs.readdirSync(current).length === 0) {
+    fs.rmdirSync(current);
+    current = path.dirname(current);
+  }
+};
+
+// Reverts the workspace to the state before run `id` by undoing that run and
+// every later one, newest first. Undone checkpoints are removed.
+export const restoreCheckpoint = (dir: string, root: string, id: string): RestoreResult | null => {
+  const checkpoints = listCheckpoints(dir);
+  const target = checkpoints.findIndex(checkpoint => checkpoint.id === id);
+  if (target === -1) return null;
+
+  const result: RestoreResult = { undone: checkpoints.slice(0, target + 1), restored: [], deleted: [] };
+  result.undone.forEach(checkpoint => {
+    checkpoint.files.forEach(file => {
+      const absolute = path.join(root, file.path);
+      if (file.existed && file.snapshot) {
+        fs.mkdirSync(path.dirname(absolute), { recursive: true });
+        fs.copyFileSync(path.join(dir, checkpoint.id, file.snapshot), absolute);
+        result.restored.push(file.path);
+      } else if (fs.existsSync(absolute)) {
+        fs.rmSync(absolute, { force: true });
+        removeEmptyParents(root, absolute);
+        result.deleted.push(file.path);
+      }
+    });
+    fs.rmSync(path.join(dir, checkpoint.id), { recursive: true, force: true });
+  });
+  return result;
+};
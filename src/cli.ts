@@ -0,0 +1,179 @@
+import { Command } from 'commander';
+import { APPROVAL_POLICIES, ApprovalPolicy } from './config';
+import { RequestUsage } from './context';
+import { Intent } from './intent';
+import { CommandResult } from './runner';
+import { VerificationReport } from './verify';
+
+export type CliCommand = 'interactive' | 'create' | 'update' | 'run' | 'list' | 'templates' | 'config' | 'import' | 'replay' | 'install' | 'preview' | 'serve';
+
+export interface CliOptions {
+  command: CliCommand;
+  prompt?: string;
+  project?: string;
+  // Repository folder given to "import"
+  source?: string;
+  // Session id or name given to "replay"
+  session?: string;
+  // Existing repository to import (or re-index) and make the active project before the command runs
+  workspace?: string;
+  // Answer yes to every confirmation (structure, file reviews, runs, fix attempts)
+  yes: boolean;
+  // Print a machine-readable summary on stdout; everything else goes to stderr
+  json: boolean;
+  root?: string;
+  model?: string;
+  temperature?: number;
+  approval?: ApprovalPolicy;
+  // Resolve and install dependencies from the local package cache only
+  offline?: boolean;
+  // Project template to use instead of letting the agent pick one
+  template?: string;
+  // Address of the HTTP API started by "serve"
+  port: number;
+  host: string;
+}
+
+export interface StepSummary {
+  step: string;
+  content: string;
+  function: string | null;
+}
+
+// What a non-interactive run did, printed with --json
+export interface RunSummary {
+  request: string;
+  status: 'completed' | 'aborted' | 'cancelled' | 'failed';
+  intent?: Intent;
+  template?: string;
+  steps: StepSummary[];
+  filesChanged: string[];
+  checkpoint?: string;
+  lastRun?: Pick<CommandResult, 'command' | 'cwd' | 'exitCode' | 'timedOut' | 'durationMs'>;
+  usage?: RequestUsage;
+  // Checks of the files the request wrote, one report per project
+  verification?: VerificationReport[];
+  // URL of the running preview of the request's project
+  preview?: string;
+}
+
+// Parses the command line; without a subcommand the interactive REPL starts
+export const parseCli = (argv: string[]): CliOptions => {
+  let selected: Pick<CliOptions, 'command' | 'prompt' | 'project' | 'source' | 'session'> & Partial<Pick<CliOptions, 'port' | 'host'>> = { command: 'interactive' };
+  const program = new Command()
+    .name('cursor2')
+    .description('Terminal agent that creates, updates and runs coding projects')
+    .option('-y, --yes', 'approve structures, file changes and commands without asking', false)
+    .option('--json', 'print a machine-readable summary of steps and files changed', false)
+    .option('--root <dir>', 'directory that holds the projects (default: $WORKSPACE_ROOT or "chaicode")')
+    .option('--workspace <dir>', 'existing repository to work on: it is imported (or re-indexed) and becomes the active project')
+    .option('--model <name>', 'model to use instead of $LLM_MODEL')
+    .option('--temperature <value>', 'sampling temperature, e.g. 0.2')
+    .option('--approval <policy>', `what needs approval: ${APPROVAL_POLICIES.join(', ')}`)
+    .option('--offline', 'resolve and install dependencies from the local package cache only')
+    .option('-t, --template <name>', 'project template to use (see "templates") instead of letting the agent pick');
+
+  program
+    .command('interactive', { isDefault: true })
+    .description('start the interactive prompt')
+    .action(() => {
+      selected = { command: 'interactive' };
+    });
+  program
+    .command('create')
+    .description('create a new project from a description')
+    .argument('<prompt>', 'what to build, e.g. "a to-do list in HTML"')
+    .action((prompt: string) => {
+      selected = { command: 'create', prompt };
+    });
+  program
+    .command('update')
+    .description('fix or change an existing project')
+    .argument('<project>', 'project folder')
+    .argument('<issue>', 'what to change, e.g. "the css file is not working"')
+    .action((project: string, issue: string) => {
+      selected = { command: 'update', project, prompt: issue };
+    });
+  program
+    .command('run')
+    .description("run a project's start command, offering fixes when it fails")
+    .argument('<project>', 'project folder')
+    .action((project: string) => {
+      selected = { command: 'run', project };
+    });
+  program
+    .command('install')
+    .description("check a project's package.json/requirements.txt against the registry and install its dependencies")
+    .argument('<project>', 'project folder')
+    .action((project: string) => {
+      selected = { command: 'install', project };
+    });
+  program
+    .command('list')
+    .description('list the projects in the workspace')
+    .action(() => {
+      selected = { command: 'list' };
+    });
+  program
+    .command('templates')
+    .description('list the built-in and user-defined project templates')
+    .action(() => {
+      selected = { command: 'templates' };
+    });
+  program
+    .command('import')
+    .description('index an existing repository and add it to the workspace as a project')
+    .argument('<path>', 'repository folder')
+    .argument('[name]', 'project name (default: the folder name)')
+    .action((source: string, name?: string) => {
+      selected = { command: 'import', source, project: name };
+    });
+  program
+    .command('replay')
+    .description("re-render the runs of a session from its event log (--json prints the raw entries)")
+    .argument('<session>', 'session id or name')
+    .action((session: string) => {
+      selected = { command: 'replay', session };
+    });
+  program
+    .command('preview')
+    .description('serve a web project on a local port; open pages reload when its files change')
+    .argument('<project>', 'project folder')
+    .action((project: string) => {
+      selected = { command: 'preview', project };
+    });
+  program
+    .command('config')
+    .description('show the effective configuration and where each value comes from')
+    .action(() => {
+      selected = { command: 'config' };
+    });
+  program
+    .command('serve')
+    .description('expose the agent over a local HTTP API with Server-Sent Events')
+    .option('-p, --port <port>', 'port to listen on', '4000')
+    .option('--host <host>', 'address to bind', '127.0.0.1')
+    .action((options: { port: string; host: string }) => {
+      selected = { command: 'serve', port: Number(options.port), host: options.host };
+    });
+
+  program.parse(argv);
+  const { yes, json, root, model, template, temperature, approval, workspace, offline } = program.opts();
+  if (temperature !== undefined && Number.isNaN(Number(temperature))) program.error(`error: --temperature must be a number, got "${temperature}"`);
+  if (approval !== undefined && !APPROVAL_POLICIES.includes(approval)) program.error(`error: --approval must be one of ${APPROVAL_POLICIES.join(', ')}`);
+  return {
+    port: 4000,
+    host: '127.0.0.1',
+    ...selected,
+    yes,
+    json,
+    root,
+    model,
+    template,
+    workspace,
+    offline,
+    temperature: temperature === undefined ? undefined : Number(temperature),
+    // --yes is shorthand for --approval auto
+    approval: yes ? 'auto' : approval,
+  };
+};
@@ -0,0 +1,212 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isBinaryFile, SKIPPED_DIRS, writeFileAtomic } from './files';
+import { IgnoreRules, isIgnored, readGitignore } from './ignore';
+
+// One text file of an imported repository
+export interface IndexedFile {
+  // Relative to the repository, with forward slashes
+  path: string;
+  size: number;
+  // Left out for files too large to read
+  lines?: number;
+  // Leading comment or heading and the top-level names it defines; empty when nothing was found
+  summary: string;
+}
+
+// File summary map of an imported repository, saved under <root>/.cursor2/index
+export interface RepositoryIndex {
+  project: string;
+  source: string;
+  type?: string;
+  indexedAt: string;
+  files: IndexedFile[];
+  skipped: { ignored: number; binary: number; overLimit: number };
+}
+
+export interface ImportedRepository {
+  name: string;
+  // Absolute path as given, and with links resolved (what the workspace guard allows)
+  source: string;
+  realPath: string;
+  // False when the folder already was a project folder of the workspace
+  linked: boolean;
+}
+
+const INDEX_FILE_LIMIT = 2000;
+// Larger files are listed without a summary
+const MAX_SUMMARY_BYTES = 256 * 1024;
+const SUMMARY_CHARS = 160;
+const SUMMARY_SYMBOLS = 8;
+// Characters of the summary map sent to the model with each request
+const INDEX_CONTEXT_CHARS = 6000;
+
+// Top-level declarations per file extension
+const SYMBOL_PATTERNS: [string[], RegExp[]][] = [
+  [
+    ['.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs', '.vue', '.svelte'],
+    [/^export\s+(?:default\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([A-Za-z_$][\w$]*)/gm, /^(?:async\s+)?function\*?\s+([A-Za-z_$][\w$]*)/gm, /^class\s+([A-Za-z_$][\w$]*)/gm],
+  ],
+  [['.py'], [/^(?:async\s+)?def\s+(\w+)/gm, /^class\s+(\w+)/gm]],
+  [['.go'], [/^func\s+(?:\([^)]*\)\s*)?(\w+)/gm, /^type\s+(\w+)/gm]],
+  [['.rs'], [/^pub\s+(?:async\s+)?(?:fn|struct|enum|trait|mod)\s+(\w+)/gm]],
+  [['.java', '.kt', '.cs', '.scala'], [/^\s*(?:public\s+|internal\s+)?(?:abstract\s+|final\s+|static\s+|sealed\s+|data\s+)*(?:class|interface|enum|record|object)\s+(\w+)/gm]],
+  [['.rb'], [/^\s*(?:class|module)\s+([\w:]+)/gm, /^\s*def\s+([\w.?!]+)/gm]],
+  [['.php'], [/^\s*(?:final\s+|abstract\s+)?(?:class|interface|trait)\s+(\w+)/gm, /^function\s+(\w+)/gm]],
+];
+
+// Files whose presence at the top of a repository tells what kind of project it is, most specific first
+const PROJECT_MARKERS: [string, string][] = [
+  ['tsconfig.json', 'TypeScript project'],
+  ['package.json', 'Node.js project'],
+  ['pyproject.toml', 'Python project'],
+  ['requirements.txt', 'Python project'],
+  ['setup.py', 'Python project'],
+  ['go.mod', 'Go module'],
+  ['Cargo.toml', 'Rust crate'],
+  ['pom.xml', 'Java (Maven) project'],
+  ['build.gradle', 'Java (Gradle) project'],
+  ['Gemfile', 'Ruby project'],
+  ['composer.json', 'PHP project'],
+  ['index.html', 'HTML web app'],
+];
+
+export const detectProjectType = (files: string[]): string | undefined => PROJECT_MARKERS.find(([marker]) => files.includes(marker))?.[1];
+
+// First comment, docstring or Markdown heading of a file
+const leadingText = (content: string, extension: string): string => {
+  if (extension === '.md') return /^#+\s+(.+)$/m.exec(content)?.[1] || '';
+  if (extension === '.html' || extension === '.htm') return /<title>([^<]*)<\/title>/i.exec(content)?.[1].trim() || '';
+  const lines = content.split('\n').slice(0, 20).map(line => line.trim());
+  const first = lines.find(line => line && !line.startsWith('#!') && !/^['"]use strict['"]/.test(line));
+  if (!first) return '';
+  const comment = /^(?:\/\/+|#(?!include|import|define)|\/\*+|\*|"""|'''|<!--|--)\s*(.*?)\s*(?:\*\/|"""|'''|-->)?$/.exec(first);
+  if (!comment) return '';
+  // "/**" on its own line: the text starts on the next one
+  if (!comment[1]) return /^\*\s*(.+)$/.exec(lines[lines.indexOf(first) + 1] || '')?.[1] || '';
+  return comment[1];
+};
+
+const summarize = (file: string, content: string): string => {
+  const extension = path.extname(file).toLowerCase();
+  if (path.basename(file) === 'package.json') {
+    try {
+      const pkg = JSON.parse(content);
+      return [pkg.name, pkg.description].filter(Boolean).join(': ').slice(0, SUMMARY_CHARS);
+    } catch {
+      return '';
+    }
+  }
+  const patterns = SYMBOL_PATTERNS.find(([extensions]) => extensions.includes(extension))?.[1] || [];
+  const symbols: string[] = [];
+  patterns.forEach(pattern => {
+    for (let match = pattern.exec(content); match; match = pattern.exec(content)) {
+      if (!symbols.includes(match[1])) symbols.push(match[1]);
+    }
+  });
+  const defines = symbols.length
+    ? `defines ${symbols.slice(0, SUMMARY_SYMBOLS).join(', ')}${symbols.length > SUMMARY_SYMBOLS ? ` and ${symbols.length - SUMMARY_SYMBOLS} more` : ''}`
+    : '';
+  return [leadingText(content, extension), defines].filter(Boolean).join('; ').slice(0, SUMMARY_CHARS);
+};
+
+// Walks a repository like Git would see it: .gitignore rules (nested ones too), no .git, node_modules
+// or build output, no binary files. Text files get a one-line summary.
+export const indexRepository = (repoDir: string, project: string, source: string): RepositoryIndex => {
+  const files: IndexedFile[] = [];
+  const skipped = { ignored: 0, binary: 0, overLimit: 0 };
+  const walk = (dir: string, relative: string, rules: IgnoreRules) => {
+    fs.readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(entry => {
+        const entryPath = path.join(dir, entry.name);
+        const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+        if (SKIPPED_DIRS.includes(entry.name) || isIgnored(rules, entryRelative, entry.isDirectory())) {
+          skipped.ignored++;
+          return;
+        }
+        if (entry.isDirectory()) {
+          walk(entryPath, entryRelative, readGitignore(entryPath, entryRelative, rules));
+          return;
+        }
+        if (!entry.isFile()) return;
+        if (files.length >= INDEX_FILE_LIMIT) {
+          skipped.overLimit++;
+          return;
+        }
+        if (isBinaryFile(entryPath)) {
+          skipped.binary++;
+          return;
+        }
+        const { size } = fs.statSync(entryPath);
+        if (size > MAX_SUMMARY_BYTES) {
+          files.push({ path: entryRelative, size, summary: '' });
+          return;
+        }
+        const content = fs.readFileSync(entryPath, 'utf-8');
+        files.push({ path: entryRelative, size, lines: content.split('\n').length, summary: summarize(entryRelative, content) });
+      });
+  };
+  walk(repoDir, '', readGitignore(repoDir, ''));
+  const type = detectProjectType(files.map(file => file.path));
+  return { project, source, type, indexedAt: new Date().toISOString(), files, skipped };
+};
+
+const indexFile = (indexDir: string, project: string): string => path.join(indexDir, `${project}.json`);
+
+export const saveIndex = (indexDir: string, index: RepositoryIndex): void => {
+  fs.mkdirSync(indexDir, { recursive: true });
+  writeFileAtomic(indexFile(indexDir, index.project), JSON.stringify(index, null, 2));
+};
+
+export const loadIndex = (indexDir: string, project: string): RepositoryIndex | undefined => {
+  try {
+    return JSON.parse(fs.readFileSync(indexFile(indexDir, project), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+};
+
+// Context message with the summary map, cut to INDEX_CONTEXT_CHARS
+export const describeIndex = (index: RepositoryIndex): string => {
+  const lines: string[] = [];
+  let length = 0;
+  for (const file of index.files) {
+    const line = `- ${file.path}${file.lines ? ` (${file.lines} lines)` : ''}${file.summary ? `: ${file.summary}` : ''}`;
+    if (length + line.length > INDEX_CONTEXT_CHARS) break;
+    lines.push(line);
+    length += line.length + 1;
+  }
+  const rest = index.files.length - lines.length + index.skipped.overLimit;
+  const more = rest > 0 ? `\n... and ${rest} more file(s); use read_directory and search_files to find them.` : '';
+  return `File map of "${index.project}" (indexed ${index.indexedAt}; ignored, binary and dependency files are left out):\n${lines.join('\n')}${more}`;
+};
+
+// Links an existing repository into the workspace root as <root>/<name>, so the file tools,
+// checkpoints and runs work on it like on any other project. Importing the same folder again is allowed.
+export const importRepository = (rootDir: string, source: string, name?: string): ImportedRepository => {
+  const absolute = path.resolve(source);
+  if (!fs.existsSync(absolute) || !fs.statSync(absolute).isDirectory()) throw new Error(`${source} is not a folder`);
+  const realPath = fs.realpathSync(absolute);
+  const realRoot = fs.realpathSync(rootDir);
+  const fromRoot = path.relative(realRoot, realPath);
+  if (!fromRoot.startsWith('..') && !path.isAbsolute(fromRoot)) {
+    if (fromRoot && !fromRoot.includes(path.sep)) return { name: fromRoot, source: absolute, realPath, linked: false };
+    throw new Error(`${source} is already inside the workspace ${rootDir}`);
+  }
+  const fromSource = path.relative(realPath, realRoot);
+  if (!fromSource.startsWith('..') && !path.isAbsolute(fromSource)) throw new Error(`${source} contains the workspace ${rootDir}; pass another --root`);
+
+  const projectName = name || path.basename(absolute).replace(/[^\w.-]+/g, '-').replace(/^[.-]+/, '');
+  if (!projectName || projectName.includes('/')) throw new Error(`"${name}" is not a valid project name`);
+  const link = path.join(rootDir, projectName);
+  const existing = fs.lstatSync(link, { throwIfNoEntry: false });
+  if (existing) {
+    const target = existing.isSymbolicLink() && fs.existsSync(link) ? fs.realpathSync(link) : undefined;
+    if (target !== realPath) throw new Error(`a project named "${projectName}" already exists in ${rootDir}; pass another name`);
+  } else {
+    // Junctions need no extra privileges on Windows
+    fs.symlinkSync(absolute, link, process.platform === 'win32' ? 'junction' : 'dir');
+  }
+  return { name: projectName, source: absolute, realPath, linked: true };
+};
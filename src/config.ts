@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonSchema, validateArgs } from './tools';
+
+// review: confirm structures and commands and approve every file from a diff;
+// confirm: confirm structures and commands, write files directly; auto: approve everything
+export type ApprovalPolicy = 'review' | 'confirm' | 'auto';
+
+export const APPROVAL_POLICIES: ApprovalPolicy[] = ['review', 'confirm', 'auto'];
+
+export interface PromptOverrides {
+  // Appended to the agent's system instruction
+  system?: string;
+  // Replaces the UI guidelines (Tailwind CDN, FontAwesome, Pexels images) used for web files; {{fileType}} is filled in
+  webUi?: string;
+  // Appended to every file-content prompt
+  file?: string;
+}
+
+// Where install_dependencies resolves and downloads packages
+export interface DependencySettings {
+  npmRegistry: string;
+  // Python package index (simple API), e.g. a local mirror
+  pipIndex: string;
+  // Resolve and install only from the workspace's package cache
+  offline: boolean;
+}
+
+export interface AgentConfig {
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  temperature?: number;
+  root: string;
+  approval: ApprovalPolicy;
+  // Length of the structure-approval animation; 0 turns it off
+  animationMs: number;
+  prompts: PromptOverrides;
+  // Rules for every project, sent along with each project's own rules file
+  rules: string[];
+  dependencies: DependencySettings;
+  // Browser origins allowed to call the HTTP API started by "serve", e.g. "http://localhost:3000"
+  serverOrigins: string[];
+}
+
+type ConfigKey = keyof AgentConfig;
+
+export interface LoadedConfig {
+  config: AgentConfig;
+  // Layer that set each value: "default", a config file path, "env" or "flag"
+  sources: Partial<Record<ConfigKey, string>>;
+  // Config files that could not be used, with the reason
+  errors: string[];
+}
+
+// Values given on the command line; they win over every other layer
+export interface ConfigFlags {
+  model?: string;
+  root?: string;
+  temperature?: number;
+  approval?: ApprovalPolicy;
+  offline?: boolean;
+}
+
+// Per-project rules, e.g. "no CDNs, use local assets"; the agent may not change this file
+export const RULES_FILE = '.cursor2rules';
+
+const DEFAULTS: AgentConfig = {
+  root: 'chaicode',
+  approval: 'review',
+  animationMs: 1000,
+  prompts: {},
+  rules: [],
+  dependencies: { npmRegistry: 'https://registry.npmjs.org', pipIndex: 'https://pypi.org/simple', offline: false },
+  serverOrigins: [],
+};
+
+const configSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    provider: { type: 'string', enum: ['gemini', 'openai', 'ollama', 'mock'] },
+    model: { type: 'string' },
+    baseUrl: { type: 'string' },
+    temperature: { type: 'number' },
+    root: { type: 'string' },
+    approval: { type: 'string', enum: APPROVAL_POLICIES },
+    animationMs: { type: 'integer' },
+    prompts: {
+      type: 'object',
+      properties: { system: { type: 'string' }, webUi: { type: 'string' }, file: { type: 'string' } },
+    },
+    rules: { type: 'array', items: { type: 'string' } },
+    dependencies: {
+      type: 'object',
+      properties: { npmRegistry: { type: 'string' }, pipIndex: { type: 'string' }, offline: { type: 'boolean' } },
+    },
+    serverOrigins: { type: 'array', items: { type: 'string' } },
+  },
+};
+
+// CURSOR2_CONFIG, or ~/.cursor2/config.json
+export const globalConfigFile = (): string => process.env.CURSOR2_CONFIG || path.join(os.homedir(), '.cursor2', 'config.json');
+
+export const workspaceConfigFile = (root: string): string => path.join(root, '.cursor2', 'config.json');
+
+const readConfigFile = (file: string, errors: string[]): Partial<AgentConfig> => {
+  if (!fs.existsSync(file)) return {};
+  try {
+    const raw = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const problems = validateArgs(configSchema, raw, 'config');
+    if (problems.length > 0) throw new Error(problems.join('; '));
+    return raw;
+  } catch (error) {
+    errors.push(`${file}: ${(error as Error).message}`);
+    return {};
+  }
+};
+
+const readEnv = (): Partial<AgentConfig> => {
+  const env = process.env;
+  const temperature = parseFloat(env.LLM_TEMPERATURE || '');
+  const animationMs = parseInt(env.ANIMATION_MS || '', 10);
+  // The package managers' own variables, so a mirror set up for npm or pip is used here too
+  const dependencies: Partial<DependencySettings> = {};
+  const npmRegistry = env.npm_config_registry || env.NPM_CONFIG_REGISTRY;
+  if (npmRegistry) dependencies.npmRegistry = npmRegistry;
+  if (env.PIP_INDEX_URL) dependencies.pipIndex = env.PIP_INDEX_URL;
+  if (env.OFFLINE === 'on' || env.OFFLINE === 'off') dependencies.offline = env.OFFLINE === 'on';
+  const approval = APPROVAL_POLICIES.find(policy => policy === env.APPROVAL_POLICY) || (env.REVIEW_MODE === 'off' ? 'confirm' : undefined);
+  return {
+    provider: env.LLM_PROVIDER?.toLowerCase(),
+    model: env.LLM_MODEL,
+    baseUrl: env.LLM_BASE_URL,
+    temperature: Number.isNaN(temperature) ? undefined : temperature,
+    root: env.WORKSPACE_ROOT,
+    approval,
+    animationMs: Number.isNaN(animationMs) ? undefined : animationMs,
+    dependencies: Object.keys(dependencies).length > 0 ? (dependencies as DependencySettings) : undefined,
+  };
+};
+
+// Merges the layers from lowest to highest precedence: defaults, the global config file,
+// the workspace config file (<root>/.cursor2/config.json), environment variables, command-line flags.
+// Prompt overrides and dependency settings are merged key by key and rules are concatenated; other values are replaced.
+// The workspace file cannot move the workspace, so its "root" is ignored.
+export const loadConfig = (flags: ConfigFlags): LoadedConfig => {
+  const errors: string[] = [];
+  const globalFile = globalConfigFile();
+  const global = readConfigFile(globalFile, errors);
+  const env = readEnv();
+  const { offline, ...values } = flags;
+  const cli: Partial<AgentConfig> = { ...values, dependencies: offline === undefined ? undefined : ({ offline } as DependencySettings) };
+  const root = cli.root || env.root || global.root || DEFAULTS.root;
+  const workspaceFile = workspaceConfigFile(root);
+  const { root: ignoredRoot, ...workspace } = readConfigFile(workspaceFile, errors);
+  if (ignoredRoot !== undefined) errors.push(`${workspaceFile}: "root" is ignored in a workspace config`);
+
+  const config: AgentConfig = { ...DEFAULTS, prompts: {}, rules: [], dependencies: { ...DEFAULTS.dependencies } };
+  const sources: LoadedConfig['sources'] = {};
+  const layers: [string, Partial<AgentConfig>][] = [
+    ['default', DEFAULTS],
+    [globalFile, global],
+    [workspaceFile, workspace],
+    ['env', env],
+    ['flag', cli],
+  ];
+  layers.forEach(([source, values]) =>
+    (Object.entries(values) as [ConfigKey, any][]).forEach(([key, value]) => {
+      if (value === undefined) return;
+      if (key === 'prompts') config.prompts = { ...config.prompts, ...value };
+      else if (key === 'dependencies') config.dependencies = { ...config.dependencies, ...value };
+      else if (key === 'rules') config.rules = [...config.rules, ...value];
+      else (config as any)[key] = value;
+      sources[key] = source;
+    })
+  );
+  return { config, sources, errors };
+};
+
+// Contents of a project's rules file, if it has one
+export const readProjectRules = (projectDir: string): string | undefined => {
+  const file = path.join(projectDir, RULES_FILE);
+  if (!fs.existsSync(file)) return undefined;
+  const rules = fs.readFileSync(file, 'utf-8').trim();
+  return rules || undefined;
+};
+
+// Section appended to the system instruction; empty when there are no rules
+export const rulesInstruction = (rules: string[], projectRules?: string, projectName?: string): string => {
+  const sections = [
+    rules.length > 0 ? `Rules for every project:\n${rules.map(rule => `- ${rule}`).join('\n')}` : '',
+    projectRules ? `Rules for the project "${projectName}" (from its ${RULES_FILE} file):\n${projectRules}` : '',
+  ].filter(Boolean);
+  return sections.length > 0 ? `\n\n${sections.join('\n\n')}\nThese rules override any conflicting instruction above, including the UI guidelines.` : '';
+};
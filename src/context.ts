@@ -0,0 +1,161 @@
+import { LLMProvider, Message } from './providers';
+import { TokenUsage } from './tools';
+
+export interface ContextOptions {
+  // Estimated tokens of conversation sent with each step before older turns are compacted
+  contextBudget: number;
+  // Tokens (input + output) a single request may use before it is stopped; 0 means no limit
+  requestBudget: number;
+  // Latest messages that are always sent as they are
+  keepRecent: number;
+}
+
+// Tokens used by the model calls of one request
+export interface RequestUsage extends TokenUsage {
+  calls: number;
+  // Some endpoints report no usage; those calls are estimated from the text length
+  estimated: boolean;
+}
+
+export interface CompactionResult {
+  contents: Message[];
+  // Index of the current request's first message in the compacted contents
+  requestStart: number;
+  tokensBefore: number;
+  tokensAfter: number;
+  droppedOutputs: number;
+  summarizedMessages: number;
+}
+
+const readInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
+export const loadContextOptions = (): ContextOptions => ({
+  contextBudget: readInt(process.env.CONTEXT_TOKEN_BUDGET, 24000),
+  requestBudget: readInt(process.env.REQUEST_TOKEN_BUDGET, 0),
+  keepRecent: readInt(process.env.CONTEXT_KEEP_RECENT, 6),
+});
+
+export const emptyUsage = (): RequestUsage => ({ inputTokens: 0, outputTokens: 0, calls: 0, estimated: false });
+
+// About four characters per token for English text and code
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const textOf = (message: Message): string => message.parts.map(part => part.text).join('\n');
+
+export const contextTokens = (contents: Message[]): number => estimateTokens(contents.map(textOf).join('\n'));
+
+// Wraps a provider so the token usage and duration (retries included) of every successful call is reported
+export const withUsageTracking = (provider: LLMProvider, onUsage: (usage: TokenUsage, estimated: boolean, durationMs: number) => void): LLMProvider => ({
+  ...provider,
+  generate: async request => {
+    const started = Date.now();
+    const reply = await provider.generate(request);
+    if (reply.usage) {
+      onUsage(reply.usage, false, Date.now() - started);
+    } else {
+      const output = reply.toolCall ? JSON.stringify(reply.toolCall.args) : reply.text;
+      onUsage({ inputTokens: estimateTokens(request.systemInstruction || '') + contextTokens(request.contents), outputTokens: estimateTokens(output || '') }, true, Date.now() - started);
+    }
+    return reply;
+  },
+});
+
+const PROCEED = 'Proceed to next step';
+const SUMMARY_HEADER = 'Summary of the earlier conversation (older turns were compacted to save context):';
+// Characters of a dropped tool output kept as a hint of what it was
+const STUB_CHARS = 160;
+// Characters per message and in total that are sent to the summarizer
+const TRANSCRIPT_MESSAGE_CHARS = 1500;
+const TRANSCRIPT_CHARS = 40000;
+
+// Tool results go back to the model as JSON
+const isToolOutput = (message: Message): boolean => message.role === 'user' && /^[[{"]/.test(textOf(message).trim());
+
+const stubToolOutput = (message: Message): Message => {
+  const text = textOf(message);
+  return { role: 'user', parts: [{ text: `[Earlier tool output dropped to save context (${text.length} characters): ${text.slice(0, STUB_CHARS)}…]` }] };
+};
+
+// Replaces large tool outputs with a short stub and drops "Proceed to next step" turns
+const dropStaleOutputs = (messages: Message[]): { messages: Message[]; dropped: number } => {
+  let dropped = 0;
+  const kept = messages
+    .filter(message => !(message.role === 'user' && textOf(message) === PROCEED))
+    .map(message => {
+      if (!isToolOutput(message) || textOf(message).length <= STUB_CHARS * 2) return message;
+      dropped++;
+      return stubToolOutput(message);
+    });
+  return { messages: kept, dropped };
+};
+
+const transcriptOf = (messages: Message[]): string =>
+  messages
+    .map(message => `${message.role === 'model' ? 'Agent' : 'User'}: ${textOf(message).slice(0, TRANSCRIPT_MESSAGE_CHARS)}`)
+    .join('\n\n')
+    .slice(-TRANSCRIPT_CHARS);
+
+export const summaryPrompt = (transcript: string): string =>
+  `Summarize this conversation between a user and a coding agent so the agent can continue the work without it. Keep the projects and files that were created or changed, decisions and user preferences, and problems that are still open. Leave out file contents and tool output details. Answer in at most 250 words of plain text.\n\n${transcript}`;
+
+// Used when the summarizer fails: the user's requests in order
+const digestOf = (messages: Message[]): string =>
+  messages
+    .filter(message => message.role === 'user' && !isToolOutput(message) && textOf(message) !== PROCEED)
+    .map(message => `- ${textOf(message).slice(0, 200)}`)
+    .join('\n');
+
+// Shrinks the conversation once it is estimated above the context budget, in three stages until it fits:
+// 1. stale tool outputs of earlier requests are replaced by stubs,
+// 2. earlier requests are summarized into one message that also records the project state,
+// 3. older tool outputs of the current request are replaced by stubs.
+// The latest keepRecent messages are never touched. Returns null when nothing needed to change.
+export const compactContents = async (
+  contents: Message[],
+  requestStart: number,
+  options: ContextOptions,
+  projectState: string,
+  summarize: (prompt: string) => Promise<string>,
+  force: boolean = false
+): Promise<CompactionResult | null> => {
+  const tokensBefore = contextTokens(contents);
+  if (!force && tokensBefore <= options.contextBudget) return null;
+  const recentFrom = Math.max(0, contents.length - options.keepRecent);
+  let start = Math.min(requestStart, recentFrom);
+
+  const stale = dropStaleOutputs(contents.slice(0, start));
+  let older = stale.messages;
+  let droppedOutputs = stale.dropped;
+  let summarizedMessages = 0;
+  const fits = (messages: Message[]) => !force && contextTokens(messages) <= options.contextBudget;
+
+  if (!fits([...older, ...contents.slice(start)]) && older.length > 0) {
+    let summary: string;
+    try {
+      summary = (await summarize(summaryPrompt(transcriptOf(older)))).trim();
+    } catch {
+      summary = '';
+    }
+    if (!summary) summary = `Earlier requests:\n${digestOf(older)}`;
+    summarizedMessages = older.length;
+    older = [{ role: 'user', parts: [{ text: `${SUMMARY_HEADER}\n${summary}\n\n${projectState}` }] }];
+  }
+
+  let current = contents.slice(start);
+  if (!fits([...older, ...current])) {
+    const keep = Math.max(0, contents.length - start - options.keepRecent);
+    current = current.map((message, index) => {
+      if (index >= keep || !isToolOutput(message) || textOf(message).length <= STUB_CHARS * 2) return message;
+      droppedOutputs++;
+      return stubToolOutput(message);
+    });
+  }
+
+  if (droppedOutputs === 0 && summarizedMessages === 0 && older.length === start) return null;
+  const compacted = [...older, ...current];
+  start = older.length + Math.max(0, requestStart - Math.min(requestStart, recentFrom));
+  return { contents: compacted, requestStart: start, tokensBefore, tokensAfter: contextTokens(compacted), droppedOutputs, summarizedMessages };
+};
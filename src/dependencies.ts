@@ -0,0 +1,362 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type PackageManager = 'npm' | 'pip';
+
+// One package declared by a manifest, e.g. "react" "^18.2.0" or "flask" ">=3.0"
+export interface DeclaredPackage {
+  name: string;
+  // Version range as written; '' means any version
+  spec: string;
+  dev?: boolean;
+}
+
+export interface DependencyManifest {
+  manager: PackageManager;
+  // Relative to the project folder
+  file: string;
+  packages: DeclaredPackage[];
+}
+
+export interface ResolvedPackage extends DeclaredPackage {
+  // Highest version matching the spec; missing when the package was not checked or has a problem
+  version?: string;
+  problem?: string;
+  // Why the package could not be checked (git or file dependencies, unsupported ranges)
+  unchecked?: string;
+}
+
+// Outcome of the last install per manifest, kept in the project registry
+export interface InstallRecord {
+  manager: PackageManager;
+  file: string;
+  status: 'installed' | 'failed';
+  offline: boolean;
+  at: string;
+  lockfile?: string;
+  // Installed versions read from the lockfile; declared specs when the install failed
+  packages: { name: string; spec: string; version?: string }[];
+}
+
+export interface RegistryOptions {
+  npmRegistry: string;
+  pipIndex: string;
+  // Resolve and install from cacheDir only
+  offline: boolean;
+  // Holds the npm cache and the downloaded Python packages, so an offline install can reuse them
+  cacheDir: string;
+  // Limit for each registry lookup
+  timeoutMs: number;
+}
+
+export const LOCKFILES: Record<PackageManager, string> = { npm: 'package-lock.json', pip: 'requirements.lock' };
+
+const VENV_DIR = '.venv';
+// Registry lookups in flight at once while resolving a manifest
+const LOOKUP_CONCURRENCY = 6;
+const PYTHON = process.platform === 'win32' ? 'python' : 'python3';
+// Skipped when resolving: npm aliases, git, file and URL dependencies
+const NON_REGISTRY_SPEC = /^(npm:|git|github:|file:|link:|workspace:|https?:|[\w-]+\/[\w.-]+(#.*)?$)/;
+
+// Parsed manifests of a project folder; throws when package.json is not valid JSON
+export const readManifests = (projectDir: string): DependencyManifest[] => {
+  const manifests: DependencyManifest[] = [];
+  const packageJson = path.join(projectDir, 'package.json');
+  if (fs.existsSync(packageJson)) {
+    let pkg: any;
+    try {
+      pkg = JSON.parse(fs.readFileSync(packageJson, 'utf-8'));
+    } catch (error) {
+      throw new Error(`package.json is not valid JSON: ${(error as Error).message}`);
+    }
+    const listed = (field: string, dev: boolean): DeclaredPackage[] =>
+      Object.entries(pkg[field] || {}).map(([name, spec]) => ({ name, spec: String(spec).trim(), ...(dev ? { dev } : {}) }));
+    manifests.push({ manager: 'npm', file: 'package.json', packages: [...listed('dependencies', false), ...listed('devDependencies', true)] });
+  }
+  const requirements = path.join(projectDir, 'requirements.txt');
+  if (fs.existsSync(requirements)) {
+    const packages = fs
+      .readFileSync(requirements, 'utf-8')
+      .split(/\r?\n/)
+      .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+      // Options (-r, -e, --index-url) and direct URLs are left to pip
+      .filter(line => line && !line.startsWith('-') && !/^[\w+]+:\/\//.test(line))
+      .flatMap(line => {
+        const match = /^([A-Za-z0-9][A-Za-z0-9._-]*)(?:\[[^\]]*\])?\s*([^;]*)/.exec(line);
+        return match ? [{ name: match[1], spec: match[2].replace(/\s+/g, '') }] : [];
+      });
+    manifests.push({ manager: 'pip', file: 'requirements.txt', packages });
+  }
+  return manifests;
+};
+
+// Release numbers of a version ("1.2.3" → [1, 2, 3]) and, for npm, its pre-release identifiers ("2.0.0-beta.1" → ["beta", "1"])
+interface Version {
+  release: number[];
+  prerelease?: string[];
+}
+
+// undefined for tags and other versions that cannot be compared; pip pre-releases ("3.0rc1") are left out
+const parseVersion = (manager: PackageManager, version: string): Version | undefined => {
+  const match = (manager === 'npm' ? /^v?(\d+(?:\.\d+)*)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/ : /^v?(\d+(?:\.\d+)*)$/).exec(version.trim());
+  return match ? { release: match[1].split('.').map(Number), prerelease: match[2] ? match[2].split('.') : undefined } : undefined;
+};
+
+const compareReleases = (a: number[], b: number[]): number => {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const difference = (a[i] || 0) - (b[i] || 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+};
+
+// npm precedence: a release is higher than its pre-releases, and numeric identifiers compare as numbers and sort before words
+const comparePrereleases = (a: string[] | undefined, b: string[] | undefined): number => {
+  if (!a || !b) return a === b ? 0 : a ? -1 : 1;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] === undefined || b[i] === undefined) return a[i] === undefined ? -1 : 1;
+    if (a[i] === b[i]) continue;
+    const [numericA, numericB] = [a[i], b[i]].map(part => /^\d+$/.test(part));
+    if (numericA && numericB) return Number(a[i]) - Number(b[i]);
+    if (numericA !== numericB) return numericA ? -1 : 1;
+    return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+};
+
+const compareVersions = (a: Version, b: Version): number => compareReleases(a.release, b.release) || comparePrereleases(a.prerelease, b.prerelease);
+
+const startsWith = (release: number[], prefix: number[]): boolean => prefix.every((part, index) => release[index] === part);
+
+const NPM_COMPARATOR = /^(\^|~|>=|<=|>|<|=)?v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+// npm ranges: exact, ^, ~, comparisons, x-ranges, hyphen-less "a b" intersections and "||" unions.
+// As in npm, a pre-release only matches a range that names a pre-release of the same release,
+// e.g. "^2.0.0-beta.1" allows 2.0.0-rc.1 but not 2.1.0-beta.1.
+const matchesNpm = (version: Version, spec: string): boolean | undefined => {
+  if (['', '*', 'x', 'latest'].includes(spec)) return !version.prerelease;
+  const { release } = version;
+  const results = spec.split('||').map((range): boolean | undefined => {
+    const comparators: { operator: string; parts: number[]; prerelease?: string[] }[] = [];
+    for (const comparator of range.trim().replace(/(>=|<=|>|<|=)\s+/g, '$1').split(/\s+/).filter(Boolean)) {
+      const match = NPM_COMPARATOR.exec(comparator);
+      if (!match) return undefined;
+      const parts: number[] = [];
+      for (const part of match.slice(2, 5)) {
+        if (part === undefined || /[xX*]/.test(part)) break;
+        parts.push(Number(part));
+      }
+      if (match[5] && parts.length < 3) return undefined;
+      comparators.push({ operator: match[1] || '', parts, prerelease: match[5]?.split('.') });
+    }
+    if (version.prerelease && !comparators.some(comparator => comparator.prerelease && compareReleases(release, comparator.parts) === 0)) return false;
+    return comparators.every(({ operator, parts, prerelease }) => {
+      const order = compareVersions(version, { release: parts, prerelease });
+      // "1.2" stands for every 1.2.x release
+      const partial = parts.length < 3;
+      switch (operator) {
+        case '^': {
+          const fixed = parts.findIndex(part => part !== 0);
+          return order >= 0 && startsWith(release, parts.slice(0, fixed === -1 ? parts.length : fixed + 1));
+        }
+        case '~':
+          return order >= 0 && startsWith(release, parts.slice(0, Math.max(1, Math.min(2, parts.length))));
+        case '>=':
+          return order >= 0;
+        case '<=':
+          return order <= 0 || (partial && startsWith(release, parts));
+        case '>':
+          return order > 0 && !(partial && startsWith(release, parts));
+        case '<':
+          return order < 0 && !(partial && startsWith(release, parts));
+        default:
+          return startsWith(release, parts) && (partial || order === 0);
+      }
+    });
+  });
+  if (results.includes(true)) return true;
+  return results.includes(undefined) ? undefined : false;
+};
+
+// PEP 440 specifiers separated by commas: ==, !=, >=, <=, >, <, ~= and "==1.2.*"
+const matchesPip = (release: number[], spec: string): boolean | undefined => {
+  if (!spec) return true;
+  const results = spec.split(',').map((clause): boolean | undefined => {
+    const match = /^(~=|===?|!=|>=|<=|>|<)(\d+(?:\.\d+)*)(\.\*)?$/.exec(clause);
+    if (!match) return undefined;
+    const [, operator, version, wildcard] = match;
+    const parts = version.split('.').map(Number);
+    const order = compareReleases(release, parts);
+    switch (operator) {
+      case '~=':
+        return order >= 0 && startsWith(release, parts.slice(0, Math.max(1, parts.length - 1)));
+      case '!=':
+        return wildcard ? !startsWith(release, parts) : order !== 0;
+      case '>=':
+        return order >= 0;
+      case '<=':
+        return order <= 0;
+      case '>':
+        return order > 0;
+      case '<':
+        return order < 0;
+      default:
+        return wildcard ? startsWith(release, parts) : order === 0;
+    }
+  });
+  if (results.includes(undefined)) return undefined;
+  return results.every(Boolean);
+};
+
+// Highest listed version that satisfies the spec; undefined when the spec cannot be evaluated
+export const highestMatch = (manager: PackageManager, versions: string[], spec: string): string | null | undefined => {
+  const matches = (version: Version) => (manager === 'npm' ? matchesNpm(version, spec) : matchesPip(version.release, spec));
+  if (matches({ release: [0] }) === undefined) return undefined;
+  const candidates = versions
+    .map(version => ({ version, parsed: parseVersion(manager, version) }))
+    .filter((entry): entry is { version: string; parsed: Version } => !!entry.parsed && !!matches(entry.parsed))
+    .sort((a, b) => compareVersions(b.parsed, a.parsed));
+  return candidates[0]?.version ?? null;
+};
+
+// pip compares names case-insensitively with "-", "_" and "." treated alike
+const normalizePipName = (name: string): string => name.toLowerCase().replace(/[-_.]+/g, '-');
+
+// Versions in the registry; null when the package does not exist there
+const fetchVersions = async (manager: PackageManager, name: string, options: RegistryOptions): Promise<string[] | null> => {
+  const url =
+    manager === 'npm'
+      ? `${options.npmRegistry.replace(/\/+$/, '')}/${name.replace('/', '%2f')}`
+      : `${options.pipIndex.replace(/\/+$/, '')}/${normalizePipName(name)}/`;
+  // Abbreviated npm metadata and the JSON form of the Python simple index (PEP 691)
+  const accept = manager === 'npm' ? 'application/vnd.npm.install-v1+json' : 'application/vnd.pypi.simple.v1+json';
+  const response = await fetch(url, { headers: { accept }, signal: AbortSignal.timeout(options.timeoutMs) });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`${url} answered ${response.status} ${response.statusText}`);
+  const body: any = await response.json();
+  if (manager === 'npm') return Object.keys(body.versions || {});
+  if (Array.isArray(body.versions)) return body.versions;
+  throw new Error(`${options.pipIndex} does not list versions in its JSON index`);
+};
+
+// Versions of each package found in the local cache: npm tarball entries of the cache index,
+// and the wheels and source archives downloaded for pip
+const cachedVersions = (manager: PackageManager, cacheDir: string): Map<string, string[]> => {
+  const versions = new Map<string, string[]>();
+  const add = (name: string, version: string) => versions.set(name, [...(versions.get(name) || []), version]);
+  const dir = path.join(cacheDir, manager === 'npm' ? path.join('npm', '_cacache', 'index-v5') : 'pip');
+  if (!fs.existsSync(dir)) return versions;
+  if (manager === 'pip') {
+    fs.readdirSync(dir).forEach(file => {
+      const match = /^([A-Za-z0-9._]+?)-(\d+(?:\.\d+)*)(?:-.*\.whl|\.tar\.gz|\.zip)$/.exec(file);
+      if (match) add(normalizePipName(match[1]), match[2]);
+    });
+    return versions;
+  }
+  const tarball = /\/((?:@[^/]+\/)?[^/]+)\/-\/[^/]+-(\d+\.\d+\.\d+[^/]*)\.tgz/g;
+  const walk = (current: string) =>
+    fs.readdirSync(current, { withFileTypes: true }).forEach(entry => {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) return walk(entryPath);
+      const content = fs.readFileSync(entryPath, 'utf-8');
+      for (let match = tarball.exec(content); match; match = tarball.exec(content)) add(decodeURIComponent(match[1]), match[2]);
+    });
+  walk(dir);
+  return versions;
+};
+
+// Checks every declared package against the registry (or the local cache when offline),
+// with at most LOOKUP_CONCURRENCY registry requests in flight
+export const resolvePackages = async (manifest: DependencyManifest, options: RegistryOptions): Promise<ResolvedPackage[]> => {
+  const cache = options.offline ? cachedVersions(manifest.manager, options.cacheDir) : undefined;
+  const where = options.offline ? 'the offline cache' : manifest.manager === 'npm' ? options.npmRegistry : options.pipIndex;
+  const resolve = async (pkg: DeclaredPackage): Promise<ResolvedPackage> => {
+    if (manifest.manager === 'npm' && NON_REGISTRY_SPEC.test(pkg.spec)) return { ...pkg, unchecked: 'not a registry version' };
+    let versions: string[] | null;
+    try {
+      versions = cache ? cache.get(manifest.manager === 'pip' ? normalizePipName(pkg.name) : pkg.name) || null : await fetchVersions(manifest.manager, pkg.name, options);
+    } catch (error) {
+      return { ...pkg, unchecked: (error as Error).message };
+    }
+    if (!versions) return { ...pkg, problem: `not found in ${where}` };
+    const version = highestMatch(manifest.manager, versions, pkg.spec);
+    if (version === undefined) return { ...pkg, unchecked: `range "${pkg.spec}" is not understood here` };
+    if (version === null) return { ...pkg, problem: `no version matching "${pkg.spec}" in ${where}` };
+    return { ...pkg, version };
+  };
+  const results: ResolvedPackage[] = [];
+  let next = 0;
+  const worker = async () => {
+    while (next < manifest.packages.length) {
+      const index = next++;
+      results[index] = await resolve(manifest.packages[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(LOOKUP_CONCURRENCY, manifest.packages.length) }, worker));
+  return results;
+};
+
+const pipIn = (projectDir: string): string =>
+  JSON.stringify(path.join(projectDir, VENV_DIR, process.platform === 'win32' ? 'Scripts' : 'bin', 'pip'));
+
+// A registry URL as a quoted shell argument; anything but a plain http(s) URL is rejected, since the shell would expand it
+const urlArgument = (value: string, setting: string): string => {
+  let url: URL | undefined;
+  try {
+    url = new URL(value);
+  } catch {
+    url = undefined;
+  }
+  if (!url || !/^https?:$/.test(url.protocol) || /[\s"'`$\\]/.test(value)) throw new Error(`${setting} must be an http(s) URL, got ${JSON.stringify(value)}`);
+  return JSON.stringify(value);
+};
+
+// Shell command that installs a manifest into its project and writes the lockfile. Throws on an invalid registry URL.
+// npm keeps its cache in cacheDir; pip downloads into cacheDir and installs from there, in a .venv of the project.
+export const installCommand = (manifest: DependencyManifest, projectDir: string, options: RegistryOptions): string => {
+  const cache = JSON.stringify(path.resolve(options.cacheDir, manifest.manager));
+  if (manifest.manager === 'npm') {
+    return `npm install --no-audit --no-fund --cache ${cache} --registry ${urlArgument(options.npmRegistry, 'dependencies.npmRegistry')}${options.offline ? ' --offline' : ''}`;
+  }
+  const absolute = path.resolve(projectDir);
+  const pip = pipIn(absolute);
+  return [
+    fs.existsSync(path.join(absolute, VENV_DIR)) ? '' : `${PYTHON} -m venv ${VENV_DIR}`,
+    options.offline ? '' : `${pip} download -r ${manifest.file} -d ${cache} --index-url ${urlArgument(options.pipIndex, 'dependencies.pipIndex')}`,
+    `${pip} install --no-index --find-links ${cache} -r ${manifest.file}`,
+    `${pip} freeze > ${LOCKFILES.pip}`,
+  ]
+    .filter(Boolean)
+    .join(' && ');
+};
+
+// Installed version of each declared package, read from the lockfile
+export const lockedVersions = (manifest: DependencyManifest, projectDir: string): Map<string, string> => {
+  const versions = new Map<string, string>();
+  const lockfile = path.join(projectDir, LOCKFILES[manifest.manager]);
+  if (!fs.existsSync(lockfile)) return versions;
+  try {
+    const content = fs.readFileSync(lockfile, 'utf-8');
+    if (manifest.manager === 'npm') {
+      const lock = JSON.parse(content);
+      manifest.packages.forEach(pkg => {
+        const version = lock.packages?.[`node_modules/${pkg.name}`]?.version || lock.dependencies?.[pkg.name]?.version;
+        if (version) versions.set(pkg.name, version);
+      });
+    } else {
+      const frozen = new Map(
+        content.split(/\r?\n/).flatMap(line => {
+          const match = /^([^=\s]+)==(\S+)$/.exec(line.trim());
+          return match ? [[normalizePipName(match[1]), match[2]] as [string, string]] : [];
+        })
+      );
+      manifest.packages.forEach(pkg => {
+        const version = frozen.get(normalizePipName(pkg.name));
+        if (version) versions.set(pkg.name, version);
+      });
+    }
+  } catch {
+    // A damaged lockfile leaves the versions unknown
+  }
+  return versions;
+};
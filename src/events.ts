@@ -0,0 +1,31 @@
+import { EventEmitter } from 'events';
+import { RunSummary } from './cli';
+import { Intent } from './intent';
+import { TokenUsage } from './tools';
+import { VerificationReport } from './verify';
+
+// Progress of a run as seen by observers other than the terminal (the HTTP server, the run log)
+export type AgentEvent =
+  | { type: 'run_started'; request: string }
+  | { type: 'intent'; intent: Intent }
+  | { type: 'model_call'; durationMs: number; usage: TokenUsage; estimated: boolean }
+  | { type: 'model_retry'; kind: 'http' | 'step'; attempt: number; error: string; delayMs?: number }
+  | { type: 'step'; step: string; content: string; function: string | null; args?: unknown }
+  | { type: 'tool_call'; step: string; name: string; args: unknown; result: unknown; durationMs?: number }
+  // before and after are SHA-256 hashes of the file content; before is null for new files
+  | { type: 'file_written'; path: string; action: 'created' | 'updated' | 'patched'; before?: string | null; after?: string }
+  // A yes/no confirmation (structure, command, fix attempt) or the review of one file change
+  | { type: 'approval'; subject: string; path?: string; decision: 'approved' | 'rejected' | 'edited' | 'approved_all'; by: 'user' | 'auto'; reason?: string }
+  | { type: 'verification'; report: VerificationReport }
+  | { type: 'question'; id: string; question: string }
+  | { type: 'question_answered'; id: string; answer: string }
+  | { type: 'run_finished'; summary: RunSummary };
+
+export const agentEvents = new EventEmitter();
+
+export const emitAgentEvent = (event: AgentEvent): void => {
+  agentEvents.emit('event', event);
+};
+
+// Questions carry terminal colors; observers get plain text
+export const stripAnsi = (text: string): string => text.replace(/\u001b\[[0-9;]*m/g, '');
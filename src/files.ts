@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { isViolation, resolveWorkspacePath, WorkspacePolicy, WorkspaceViolation } from './guard';
+import { IgnoreRules, isIgnored, readGitignore } from './ignore';
+
+export interface FileEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  size: number;
+  created: Date;
+  children?: FileEntry[];
+}
+
+export interface FileContent {
+  path: string;
+  content: string;
+  lines: number;
+  truncated: boolean;
+}
+
+export interface SearchMatch {
+  path: string;
+  line: number;
+  text: string;
+}
+
+export interface SearchResult {
+  query: string;
+  matches: SearchMatch[];
+  truncated: boolean;
+  message: string;
+}
+
+// Folders that are never walked or searched: dependencies, VCS data and build output
+export const SKIPPED_DIRS = ['node_modules', '.git', 'dist', 'build', '.next', '__pycache__', '.venv', 'venv'];
+
+const MAX_FILE_CHARS = 20000;
+const MAX_SEARCH_MATCHES = 100;
+const MAX_LINE_CHARS = 200;
+
+// Treats files with NUL bytes in their first 8KB as binary
+export const isBinaryFile = (filePath: string): boolean => {
+  const handle = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(8192);
+    const bytesRead = fs.readSync(handle, buffer, 0, buffer.length, 0);
+    return buffer.subarray(0, bytesRead).includes(0);
+  } finally {
+    fs.closeSync(handle);
+  }
+};
+
+// Follows links; false for missing targets
+export const isDirectoryPath = (target: string): boolean => {
+  try {
+    return fs.statSync(target).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
+// Links are followed only when their target exists and, given a policy, stays inside the workspace
+const isUsableLink = (entryPath: string, policy?: WorkspacePolicy): boolean =>
+  fs.existsSync(entryPath) && (!policy || !isViolation(resolveWorkspacePath(policy, entryPath)));
+
+// Lists a directory, descending into subfolders up to depth levels (1 = this folder only).
+// Entries matched by a .gitignore met on the way are left out.
+export const walkDirectory = (absolute: string, display: string, depth: number, hidden: string[] = [], policy?: WorkspacePolicy): FileEntry[] => {
+  const walk = (dir: string, dirDisplay: string, levels: number, rules: IgnoreRules, relative: string): FileEntry[] =>
+    fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter(entry => !hidden.includes(entry.name))
+      .flatMap(entry => {
+        const entryPath = path.join(dir, entry.name);
+        const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+        if (entry.isSymbolicLink() && !isUsableLink(entryPath, policy)) return [];
+        const stats = fs.statSync(entryPath);
+        if (isIgnored(rules, entryRelative, stats.isDirectory())) return [];
+        const item: FileEntry = {
+          name: entry.name,
+          path: `${dirDisplay}/${entry.name}`,
+          isDirectory: stats.isDirectory(),
+          size: stats.size,
+          created: stats.birthtime,
+        };
+        if (item.isDirectory && levels > 1 && !SKIPPED_DIRS.includes(entry.name)) {
+          item.children = walk(entryPath, item.path, levels - 1, readGitignore(entryPath, entryRelative, rules), entryRelative);
+        }
+        return [item];
+      });
+  return walk(absolute, display, depth, readGitignore(absolute, ''), '');
+};
+
+// All text files below a directory that no .gitignore excludes, as [absolute, display] pairs
+const collectFiles = (absolute: string, display: string, hidden: string[], policy: WorkspacePolicy): [string, string][] => {
+  const files: [string, string][] = [];
+  const walk = (dir: string, dirDisplay: string, rules: IgnoreRules, relative: string) => {
+    fs.readdirSync(dir, { withFileTypes: true }).forEach(entry => {
+      if (hidden.includes(entry.name) || SKIPPED_DIRS.includes(entry.name)) return;
+      const entryPath = path.join(dir, entry.name);
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+      // Imported projects are links to folders outside the workspace
+      if (entry.isSymbolicLink() && !isUsableLink(entryPath, policy)) return;
+      const isDirectory = entry.isDirectory() || (entry.isSymbolicLink() && isDirectoryPath(entryPath));
+      if (isIgnored(rules, entryRelative, isDirectory)) return;
+      if (isDirectory) walk(entryPath, `${dirDisplay}/${entry.name}`, readGitignore(entryPath, entryRelative, rules), entryRelative);
+      else if (entry.isFile() || entry.isSymbolicLink()) files.push([entryPath, `${dirDisplay}/${entry.name}`]);
+    });
+  };
+  walk(absolute, display, readGitignore(absolute, ''), '');
+  return files;
+};
+
+// Writes through a temporary file and a rename, so an interrupted write never leaves a half-written file.
+// A symlink is written through to its target, and an existing file keeps its mode (e.g. executable scripts).
+export const writeFileAtomic = (filePath: string, content: string): void => {
+  const target = fs.existsSync(filePath) ? fs.realpathSync(filePath) : filePath;
+  const tempFile = path.join(path.dirname(target), `.${path.basename(target)}.${process.pid}.tmp`);
+  try {
+    fs.writeFileSync(tempFile, content);
+    if (fs.existsSync(target)) fs.chmodSync(tempFile, fs.statSync(target).mode);
+    fs.renameSync(tempFile, target);
+  } catch (error) {
+    fs.rmSync(tempFile, { force: true });
+    throw error;
+  }
+};
+
+export const readTextFile = (policy: WorkspacePolicy, filePath: string, maxChars: number = MAX_FILE_CHARS): FileContent | WorkspaceViolation | string => {
+  const target = resolveWorkspacePath(policy, filePath);
+  if (isViolation(target)) return target;
+  if (!fs.existsSync(target.absolute) || !fs.statSync(target.absolute).isFile()) {
+    return `Error reading file: ${target.display} does not exist`;
+  }
+  if (isBinaryFile(target.absolute)) return `Error reading file: ${target.display} is a binary file`;
+  const content = fs.readFileSync(target.absolute, 'utf-8');
+  return {
+    path: target.display,
+    content: content.length > maxChars ? content.slice(0, maxChars) : content,
+    lines: content.split('\n').length,
+    truncated: content.length > maxChars,
+  };
+};
+
+// grep-like search through the text files below dirPath
+export const searchFiles = (
+  policy: WorkspacePolicy,
+  query: string,
+  options: { dirPath?: string; regex?: boolean; caseSensitive?: boolean; hidden?: string[] } = {}
+): SearchResult | WorkspaceViolation | string => {
+  const target = resolveWorkspacePath(policy, options.dirPath || '');
+  if (isViolation(target)) return target;
+  if (!fs.existsSync(target.absolute)) return `Error searching files: ${target.display} does not exist`;
+
+  let pattern: RegExp;
+  try {
+    const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    pattern = new RegExp(source, options.caseSensitive ? '' : 'i');
+  } catch (error) {
+    return `Error searching files: invalid regular expression (${(error as Error).message})`;
+  }
+
+  const matches: SearchMatch[] = [];
+  let truncated = false;
+  for (const [absolute, display] of collectFiles(target.absolute, target.display, options.hidden || [], policy)) {
+    if (isViolation(resolveWorkspacePath(policy, absolute)) || isBinaryFile(absolute)) continue;
+    const lines = fs.readFileSync(absolute, 'utf-8').split('\n');
+    for (let index = 0; index < lines.length; index++) {
+      if (!pattern.test(lines[index])) continue;
+      if (matches.length >= MAX_SEARCH_MATCHES) {
+        truncated = true;
+        break;
+      }
+      matches.push({ path: display, line: index + 1, text: lines[index].trim().slice(0, MAX_LINE_CHARS) });
+    }
+    if (truncated) break;
+  }
+  return {
+    query,
+    matches,
+    truncated,
+    message: `Found ${matches.length}${truncated ? '+' : ''} match(es) for "${query}" in ${target.display}`,
+  };
+};
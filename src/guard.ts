@@ -0,0 +1,115 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface WorkspacePolicy {
+  root: string;
+  denylist: string[];
+  // Real paths of imported repositories; links from the workspace into them are allowed
+  linked: string[];
+}
+
+export type ViolationReason = 'outside_workspace' | 'symlink_escape' | 'denylisted';
+
+// Structured tool error returned to the model when a path is rejected
+export interface WorkspaceViolation {
+  error: 'workspace_violation';
+  reason: ViolationReason;
+  path: string;
+  message: string;
+}
+
+export interface ResolvedPath {
+  absolute: string;
+  // Relative to the workspace root, always with forward slashes ('' for the root itself)
+  relative: string;
+  // Root-prefixed form used in messages, e.g. "chaicode/todo-app/index.html"
+  display: string;
+}
+
+// Secrets and version control internals are never touched
+const DEFAULT_DENYLIST = ['.env', '.env.*', '.git/', '*.pem', '*.key'];
+
+export const loadWorkspacePolicy = (root: string, extraDenylist: string[] = [], linked: string[] = []): WorkspacePolicy => {
+  const fromEnv = (process.env.WORKSPACE_DENYLIST || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  return { root, denylist: [...DEFAULT_DENYLIST, ...extraDenylist, ...fromEnv], linked };
+};
+
+export const isViolation = (value: unknown): value is WorkspaceViolation =>
+  typeof value === 'object' && value !== null && (value as WorkspaceViolation).error === 'workspace_violation';
+
+const violation = (reason: ViolationReason, requested: string, message: string): WorkspaceViolation => ({
+  error: 'workspace_violation',
+  reason,
+  path: requested,
+  message,
+});
+
+const toPosix = (value: string) => value.replace(/\\/g, '/');
+
+// Only a leading ".." segment leaves the parent; names like "..config" stay inside
+const isInside = (parent: string, child: string): boolean => {
+  const relative = path.relative(parent, child);
+  return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+};
+
+// Patterns match individual path segments; "*" is a wildcard and a trailing "/" marks a directory
+const matchesPattern = (segment: string, pattern: string): boolean => {
+  const source = pattern
+    .replace(/\/$/, '')
+    .replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*');
+  return new RegExp(`^${source}$`).test(segment);
+};
+
+// Real path of the deepest part of target that already exists on disk
+const realExistingPath = (target: string): string => {
+  let current = target;
+  while (!fs.existsSync(current)) {
+    const parent = path.dirname(current);
+    if (parent === current) return current;
+    current = parent;
+  }
+  return path.join(fs.realpathSync(current), path.relative(current, target));
+};
+
+// Resolves a path supplied by the model against the workspace root. Models often
+// repeat the root folder name ("chaicode/app/x.js" for <root>/app/x.js), so a first
+// segment equal to the root's basename is dropped, unless the path exists as given
+// (a folder inside the workspace that is named like the root).
+export const resolveWorkspacePath = (policy: WorkspacePolicy, requested: string): ResolvedPath | WorkspaceViolation => {
+  const root = path.resolve(policy.root);
+  const input = toPosix((requested || '').trim());
+  let absolute: string;
+  if (path.isAbsolute(input)) {
+    absolute = path.resolve(input);
+  } else {
+    const segments = input.split('/').filter(segment => segment && segment !== '.');
+    if (segments[0] === path.basename(root) && !fs.existsSync(path.join(root, ...segments))) segments.shift();
+    absolute = path.resolve(root, ...segments);
+  }
+
+  if (!isInside(root, absolute)) {
+    return violation('outside_workspace', requested, `"${requested}" resolves outside the workspace "${policy.root}". Use a path relative to the workspace root.`);
+  }
+
+  const realRoot = fs.existsSync(root) ? fs.realpathSync(root) : root;
+  const realTarget = realExistingPath(absolute);
+  if (!isInside(realRoot, realTarget) && !policy.linked.some(dir => isInside(dir, realTarget))) {
+    return violation('symlink_escape', requested, `"${requested}" goes through a symbolic link that points outside the workspace.`);
+  }
+
+  const relative = toPosix(path.relative(root, absolute));
+  const blocked = policy.denylist.find(pattern => relative.split('/').some(segment => matchesPattern(segment, pattern)));
+  if (blocked) {
+    return violation('denylisted', requested, `"${requested}" matches the protected pattern "${blocked}" and cannot be accessed.`);
+  }
+
+  return {
+    absolute,
+    relative,
+    display: relative ? `${toPosix(policy.root)}/${relative}` : toPosix(policy.root),
+  };
+};
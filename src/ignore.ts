@@ -0,0 +1,85 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// One pattern of a .gitignore file
+interface IgnoreRule {
+  // Folder of the .gitignore relative to the walk's root, with forward slashes ('' for the root itself)
+  base: string;
+  pattern: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+  // Patterns with a slash match the path below base; others match a name at any depth
+  anchored: boolean;
+}
+
+// Rules of every .gitignore met on the way down a walk, in the order Git applies them
+export type IgnoreRules = IgnoreRule[];
+
+const escapeRegex = (text: string): string => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// Git's wildcards: "*" and "?" stop at a slash, "**" crosses folders, "[abc]" is a character class
+const globToRegex = (glob: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+      const end = glob.indexOf(']', i + 2);
+      source += `[${glob.slice(i + 1, end).replace(/^!/, '^')}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegex(glob[++i]);
+    } else {
+      source += escapeRegex(char);
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const parseGitignore = (text: string, base: string): IgnoreRules =>
+  text.split(/\r?\n/).flatMap(line => {
+    let entry = line.replace(/\s+$/, '');
+    if (!entry || entry.startsWith('#')) return [];
+    const negated = entry.startsWith('!');
+    if (negated) entry = entry.slice(1);
+    else if (entry.startsWith('\\#') || entry.startsWith('\\!')) entry = entry.slice(1);
+    const directoryOnly = entry.endsWith('/');
+    entry = entry.replace(/\/+$/, '');
+    const anchored = entry.includes('/');
+    entry = entry.replace(/^\//, '');
+    if (!entry) return [];
+    // A pattern git would reject (e.g. the range "[z-a]") is skipped; the rest of the file still applies
+    try {
+      return [{ base, pattern: globToRegex(entry), negated, directoryOnly, anchored }];
+    } catch {
+      return [];
+    }
+  });
+
+// Adds the rules of absoluteDir's .gitignore, if it has one; relativeDir is its path from the walk's root
+export const readGitignore = (absoluteDir: string, relativeDir: string, rules: IgnoreRules = []): IgnoreRules => {
+  const file = path.join(absoluteDir, '.gitignore');
+  try {
+    return fs.existsSync(file) ? [...rules, ...parseGitignore(fs.readFileSync(file, 'utf-8'), relativeDir)] : rules;
+  } catch {
+    return rules;
+  }
+};
+
+// Whether a path (relative to the walk's root, forward slashes) is excluded; the last matching rule wins
+export const isIgnored = (rules: IgnoreRules, relativePath: string, isDirectory: boolean): boolean => {
+  let ignored = false;
+  rules.forEach(rule => {
+    if (rule.directoryOnly && !isDirectory) return;
+    if (rule.base && !relativePath.startsWith(`${rule.base}/`)) return;
+    const below = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+    if (rule.pattern.test(rule.anchored ? below : below.split('/').pop()!)) ignored = !rule.negated;
+  });
+  return ignored;
+};
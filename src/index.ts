@@ -1,29 +1,222 @@
+#!/usr/bin/env node
 import * as dotenv from 'dotenv';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import * as readline from 'readline';
-import fetch from 'node-fetch';
 import chalk from 'chalk';
+import { CliOptions, parseCli, RunSummary, StepSummary } from './cli';
+import { captureFile, Checkpoint, createCheckpoint, listCheckpoints, restoreCheckpoint } from './checkpoints';
+import { AgentConfig, loadConfig, readProjectRules, RULES_FILE, rulesInstruction } from './config';
+import { DependencyManifest, installCommand, InstallRecord, LOCKFILES, lockedVersions, readManifests, RegistryOptions, resolvePackages } from './dependencies';
+import { describeIndex, importRepository, indexRepository, loadIndex, RepositoryIndex, saveIndex } from './codebase';
+import { compactContents, contextTokens, emptyUsage, loadContextOptions, RequestUsage, withUsageTracking } from './context';
+import { agentEvents, AgentEvent, emitAgentEvent, stripAnsi } from './events';
+import { classifyIntent, Intent, ProjectListing } from './intent';
+import { FileEntry, isDirectoryPath, readTextFile, searchFiles, walkDirectory, writeFileAtomic } from './files';
+import { isViolation, loadWorkspacePolicy, resolveWorkspacePath, WorkspaceViolation } from './guard';
+import { applyFilePatch, FilePatch, isPatchFailure, PatchFailure } from './patch';
+import { describeProject, loadRegistry, ProjectRegistry, recordProject, saveRegistry, syncRegistry } from './projects';
+import { createProvider, StreamDelta } from './providers';
+import { ReviewDecision, reviewFileChange, ReviewRejection } from './review';
+import { appendLogEntry, formatEntry, hashContent, readLog } from './runlog';
+import { commandSucceeded, CommandResult, runCommand } from './runner';
+import { findTemplate, loadTemplates, pickTemplate, ProjectTemplate, renderExecuteMd, templateCommands, templateDirs, templateStructure } from './templates';
+import { isAbortError, loadRecoveryOptions, RecoveryAttempt, repairPrompt, withRetries } from './recovery';
+import { GenerationJob, runGenerationJobs } from './progress';
+import { Preview, startPreview } from './preview';
+import { AgentServer, createServerToken, startServer } from './server';
+import { assembleFileContent, createStepPreview } from './stream';
+import { verificationPrompt, VerificationReport, verifyProject } from './verify';
+import { editStructure, parseStructureCommand, projectPrefix } from './structure';
+import { createSession, listSessions, loadSession, recordFileTouched, saveSession, Session } from './sessions';
+import { ModelReply, parseStepReply, reportStepSchema, StepResponse, TokenUsage, ToolSchema, withStepEnvelope } from './tools';
 
 dotenv.config();
 
-const apiKey = process.env.GEMINI_API_KEY;
-const url = `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`;
+const cli: CliOptions = parseCli(process.argv);
+// With --json only the summary goes to stdout, so progress output is sent to stderr
+const writeStdout = process.stdout.write.bind(process.stdout);
+if (cli.json) process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
 
-type StepType = 'initialization' | 'analyze' | 'generate_structure' | 'generate_files' | 'final_result';
+// Global config file < workspace config file < environment < command-line flags
+const { config, sources: configSources, errors: configErrors } = loadConfig({
+  model: cli.model,
+  root: cli.root,
+  temperature: cli.temperature,
+  approval: cli.approval,
+  offline: cli.offline,
+});
+configErrors.forEach(error => console.log(chalk.yellow(`⚠️ Config: ${error}`)));
 
-interface StepResponse {
-  step: StepType;
-  content: string;
-  function: string | null;
-  args: any;
-}
+const recovery = loadRecoveryOptions();
+// Failed model calls and rejected step replies for the request in progress
+let attempts: RecoveryAttempt[] = [];
+
+const recordAttempt = (attempt: RecoveryAttempt) => {
+  attempts.push(attempt);
+  emitAgentEvent({ type: 'model_retry', kind: attempt.kind, attempt: attempt.attempt, error: attempt.error, delayMs: attempt.delayMs });
+  const retryNote = attempt.delayMs !== undefined ? `, retrying in ${attempt.delayMs}ms` : '';
+  console.log(chalk.yellow(`⚠️ ${attempt.kind === 'http' ? 'Model call' : 'Step reply'} failed (attempt ${attempt.attempt}): ${attempt.error}${retryNote}`));
+};
+
+const contextOptions = loadContextOptions();
+// Tokens used by the model calls of the request in progress
+let requestUsage: RequestUsage = emptyUsage();
+
+const recordUsage = (usage: TokenUsage, estimated: boolean, durationMs: number) => {
+  emitAgentEvent({ type: 'model_call', durationMs, usage, estimated });
+  requestUsage.inputTokens += usage.inputTokens;
+  requestUsage.outputTokens += usage.outputTokens;
+  requestUsage.calls++;
+  requestUsage.estimated = requestUsage.estimated || estimated;
+  const total = session.usage || (session.usage = { inputTokens: 0, outputTokens: 0 });
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+};
+
+const provider = withUsageTracking(
+  withRetries(createProvider({ provider: config.provider, model: config.model, baseUrl: config.baseUrl, temperature: config.temperature }), recovery, recordAttempt),
+  recordUsage
+);
 
-let contents: { role: string; parts: { text: string }[] }[] = [];
 let proposedStructure: string[] = [];
-const ROOT_DIR = 'chaicode';
-let projectType: string | undefined;
-let projectName: string | undefined;
+// Structure the user approved for the current request; files outside it are only written after asking
+let approvedStructure: string[] | null = null;
+const ROOT_DIR = config.root;
+// Agent state (sessions, ...) lives in a hidden folder inside the projects directory
+const STATE_DIR_NAME = '.cursor2';
+const SESSIONS_DIR = path.join(ROOT_DIR, STATE_DIR_NAME, 'sessions');
+const CHECKPOINTS_DIR = path.join(ROOT_DIR, STATE_DIR_NAME, 'checkpoints');
+const PROJECTS_FILE = path.join(ROOT_DIR, STATE_DIR_NAME, 'projects.json');
+// One JSONL event log per session: requests, steps, tool calls, model calls, file writes and approvals
+const LOGS_DIR = path.join(ROOT_DIR, STATE_DIR_NAME, 'logs');
+// File summary maps of imported repositories
+const INDEX_DIR = path.join(ROOT_DIR, STATE_DIR_NAME, 'index');
+// npm cache and downloaded Python packages, reused by offline installs
+const PACKAGE_CACHE_DIR = path.join(ROOT_DIR, STATE_DIR_NAME, 'cache');
+// Name, type, template, manifest and last run of every project, plus the active one
+const projectRegistry: ProjectRegistry = loadRegistry(PROJECTS_FILE);
+// Every path a tool touches is resolved and checked against this policy; imported repositories are reached through links
+const workspace = loadWorkspacePolicy(
+  ROOT_DIR,
+  [`${STATE_DIR_NAME}/`, RULES_FILE],
+  Object.values(projectRegistry.projects)
+    .filter(record => record.source && fs.existsSync(record.source))
+    .map(record => fs.realpathSync(record.source!))
+);
+// Built-in project templates plus the user's own (~/.cursor2/templates and <root>/.cursor2/templates)
+const templateRegistry = loadTemplates(templateDirs(path.join(ROOT_DIR, STATE_DIR_NAME, 'templates')));
+templateRegistry.errors.forEach(error => console.log(chalk.yellow(`⚠️ Skipped template ${error}`)));
+if (cli.template && !findTemplate(templateRegistry.templates, cli.template)) {
+  console.log(chalk.red(`❌ Unknown template "${cli.template}". Available: ${templateRegistry.templates.map(template => template.name).join(', ')}`));
+  process.exit(1);
+}
+// Template of the request in progress: forced with --template, chosen by the classifier, or matched by keywords
+let activeTemplate: ProjectTemplate | null = null;
+// When on, every file write shows a diff and waits for the user's decision
+let reviewMode = config.approval === 'review';
+// A new session continues with the project chosen last time ("use <project>" or the last request)
+const startSession = (): Session => {
+  const created = createSession();
+  const active = projectRegistry.active && projectRegistry.projects[projectRegistry.active];
+  if (active) {
+    created.projectName = active.name;
+    created.projectType = active.type;
+  }
+  return created;
+};
+// Conversation, tool calls and current project; persisted after every step
+let session: Session = startSession();
+// Rules from the config plus the project's own rules file, as a system-instruction section
+const rulesFor = (projectName?: string): string =>
+  rulesInstruction(config.rules, projectName ? readProjectRules(path.join(ROOT_DIR, projectName)) : undefined, projectName);
+// Limits for the run_command tool
+const RUN_TIMEOUT_SECONDS = parseInt(process.env.RUN_TIMEOUT_SECONDS || '', 10) || 60;
+const RUN_FIX_ATTEMPTS = parseInt(process.env.RUN_FIX_ATTEMPTS || '', 10) || 3;
+// Limits for the install_dependencies tool: one install command, and each registry lookup before it
+const INSTALL_TIMEOUT_SECONDS = parseInt(process.env.INSTALL_TIMEOUT_SECONDS || '', 10) || 600;
+const REGISTRY_TIMEOUT_MS = 15000;
+// Model requests for file contents that may run at the same time
+const GENERATION_CONCURRENCY = Math.max(1, parseInt(process.env.GENERATION_CONCURRENCY || '', 10) || 3);
+// Verification stage run on the files a request wrote before it reports success
+const VERIFY_ENABLED = process.env.VERIFY !== 'off';
+const VERIFY_TIMEOUT_SECONDS = parseInt(process.env.VERIFY_TIMEOUT_SECONDS || '', 10) || 120;
+const VERIFY_FIX_ATTEMPTS = parseInt(process.env.VERIFY_FIX_ATTEMPTS || '', 10) || 2;
+// Show replies while they are generated instead of after the last token
+const STREAM_OUTPUT = process.env.STREAM_OUTPUT !== 'off';
+// First port tried by "preview"; the next free one is used when it is taken
+const PREVIEW_PORT = parseInt(process.env.PREVIEW_PORT || '', 10) || 5500;
+const PREVIEW_HOST = '127.0.0.1';
+// Running previews by project name
+const previews = new Map<string, Preview>();
+// Aborted by Ctrl+C to cancel the request in progress
+let activeAbort: AbortController | null = null;
+// Pre-run snapshot of every file the current request writes, for undo/restore
+let activeCheckpoint: Checkpoint | null = null;
+
+const persistSession = () => {
+  try {
+    saveSession(SESSIONS_DIR, session);
+  } catch (error) {
+    console.log(chalk.red(`❌ Could not save session ${session.id}: ${(error as Error).message}`));
+  }
+};
+
+const formatTokens = (count: number): string => count.toLocaleString('en-US');
+
+// What the summary of compacted turns must keep even if the summarizer leaves it out
+const projectState = (): string => {
+  const project = session.projectName ? `"${session.projectName}"${session.projectType ? ` (${session.projectType})` : ''}` : 'none yet';
+  return `Current project: ${project}. Files touched in this session: ${session.filesTouched.join(', ') || 'none'}.`;
+};
+
+// Shrinks the conversation when it outgrows CONTEXT_TOKEN_BUDGET (or always when forced);
+// messages from requestStart on belong to the request in progress. Returns the new requestStart.
+const compactContext = async (requestStart: number, force: boolean = false): Promise<number> => {
+  const summarize = async (prompt: string) =>
+    (await provider.generate({ contents: [{ role: 'user', parts: [{ text: prompt }] }], signal: activeAbort?.signal })).text;
+  const result = await compactContents(session.contents, requestStart, contextOptions, projectState(), summarize, force);
+  if (!result) return requestStart;
+  session.contents = result.contents;
+  const details = [
+    result.summarizedMessages ? `${result.summarizedMessages} earlier message(s) summarized` : '',
+    result.droppedOutputs ? `${result.droppedOutputs} stale tool output(s) dropped` : '',
+  ].filter(Boolean);
+  console.log(chalk.gray(`🗜️ Compacted the conversation from ~${formatTokens(result.tokensBefore)} to ~${formatTokens(result.tokensAfter)} tokens (${details.join(', ') || 'idle turns removed'}).`));
+  return result.requestStart;
+};
+
+const persistRegistry = () => {
+  try {
+    saveRegistry(PROJECTS_FILE, projectRegistry);
+  } catch (error) {
+    console.log(chalk.red(`❌ Could not save the project registry: ${(error as Error).message}`));
+  }
+};
+
+const recordToolCall = (step: string, name: string, args: unknown, result: unknown, durationMs?: number) => {
+  session.toolCalls.push({ request: session.requests.length - 1, step, name, args, result, timestamp: new Date().toISOString() });
+  emitAgentEvent({ type: 'tool_call', step, name, args, result, durationMs });
+};
+
+// Every agent event goes to the log of the session it happened in
+let logWarningShown = false;
+agentEvents.on('event', (event: AgentEvent) => {
+  try {
+    appendLogEntry(LOGS_DIR, session.id, event);
+  } catch (error) {
+    if (!logWarningShown) console.log(chalk.yellow(`⚠️ Could not write the run log: ${(error as Error).message}`));
+    logWarningShown = true;
+  }
+});
+
+// Open previews reload when a file of their project is written
+agentEvents.on('event', (event: AgentEvent) => {
+  if (event.type !== 'file_written' || previews.size === 0) return;
+  const target = resolveWorkspacePath(workspace, event.path);
+  if (!isViolation(target)) previews.get(target.relative.split('/')[0])?.reload();
+});
 
 const ensureRootDir = () => {
   if (!fs.existsSync(ROOT_DIR)) {
@@ -31,39 +224,27 @@ const ensureRootDir = () => {
   }
 };
 
+// Root-prefixed form of a model-supplied path (e.g. "chaicode/todo-app/index.html"),
+// or the path unchanged when the workspace policy rejects it
 const normalizePath = (filePath: string): string => {
-  const normalized = path.normalize(filePath).replace(/\\/g, '/');
-  const parts = normalized.split('/').filter(part => part);
-  const chaicodeIndex = parts.indexOf('chaicode');
-  if (chaicodeIndex !== -1 && chaicodeIndex !== 0) {
-    parts.splice(0, chaicodeIndex);
-  }
-  return path.join(ROOT_DIR, ...parts).replace(/\\/g, '/');
+  const resolved = resolveWorkspacePath(workspace, filePath);
+  return isViolation(resolved) ? filePath : resolved.display;
 };
 
-// Terminal spinner animation
-const showSpinner = async (message: string, duration: number): Promise<void> => {
-  const frames = ['🌟', '✨', '💫', '🌠', '🌟', '✨', '💫', '🌠'];
-  let i = 0;
-  const start = Date.now();
-  process.stdout.write(chalk.cyan.bold(`${message} `));
-  return new Promise(resolve => {
-    const interval = setInterval(() => {
-      process.stdout.write(`\r${chalk.cyan.bold(`${message} ${frames[i++ % frames.length]}`)}`);
-      if (Date.now() - start >= duration) {
-        clearInterval(interval);
-        process.stdout.write(`\r${chalk.cyan.bold(`${message} Done!`)}\n`);
-        resolve();
-      }
-    }, 100);
-  });
+const reportViolation = (violation: WorkspaceViolation): WorkspaceViolation => {
+  console.log(chalk.red(`🚫 Blocked ${violation.path}: ${violation.message}`));
+  return violation;
 };
 
 const showApprovalAnimation = async (): Promise<void> => {
   const frames = ['🎉', '🎈', '🎊', '🎁', '🎉', '🎈', '🎊', '🎁'];
   let i = 0;
-  const duration = 1000;
+  const duration = config.animationMs;
   const start = Date.now();
+  if (duration <= 0) {
+    console.log(chalk.green.bold('Structure Approved! Creating Your Project!'));
+    return;
+  }
   process.stdout.write(chalk.green.bold('Structure Approved! '));
   return new Promise(resolve => {
     const interval = setInterval(() => {
@@ -78,48 +259,9 @@ const showApprovalAnimation = async (): Promise<void> => {
   });
 };
 
-const generateExecuteMdContent = (projectType: string, projectName: string): string => {
-  let content = `# Execution Instructions for ${projectName}\n\n`;
-  content += `This document provides detailed instructions on how to run your ${projectType} project, along with necessary dependencies, compatibility information, and potential issues you might encounter.\n\n`;
-
-  content += `## How to Run the Project\n\n`;
-  if (projectType.toLowerCase().includes('html')) {
-    content += `- **Step 1**: Navigate to the project directory: \`${ROOT_DIR}/${projectName}\`\n`;
-    content += `- **Step 2**: Open \`index.html\` in a web browser (e.g., Chrome, Firefox) by double-clicking the file or right-clicking and selecting "Open with" your browser.\n\n`;
-    content += `### Dependencies\n- None required. This is a static HTML project that runs directly in a browser.\n\n`;
-    content += `### Compatibility\n- Works on all modern browsers (Chrome, Firefox, Edge, Safari).\n- No additional software needed.\n\n`;
-    content += `### Potential Issues\n- **Browser Compatibility**: Ensure your browser is up to date to support modern HTML5/CSS3 features.\n- **File Path Issues**: If the page doesn't load correctly, ensure you're opening the file directly from the file system (not through a server unless specified).\n`;
-  } else if (projectType.toLowerCase().includes('python')) {
-    content += `- **Step 1**: Open your terminal.\n`;
-    content += `- **Step 2**: Navigate to the project directory:\n`;
-    content += `  \`\`\`bash\n  cd ${ROOT_DIR}/${projectName}\n  \`\`\`\n`;
-    content += `- **Step 3**: Run the script:\n`;
-    content += `  \`\`\`bash\n  python ${projectName}.py\n  \`\`\`\n\n`;
-    content += `### Dependencies\n- **Python**: Version 3.6 or higher is required.\n- No additional libraries are needed for this basic script.\n\n`;
-    content += `### Compatibility\n- Works on Windows, macOS, and Linux.\n- Requires Python to be installed (download from https://www.python.org/downloads/).\n\n`;
-    content += `### Potential Issues\n- **Python Not Installed**: If Python isn't installed, you'll see a "command not found" error. Install Python and ensure it's added to your PATH.\n- **Version Mismatch**: Ensure you're using Python 3 (run \`python --version\` or \`python3 --version\`).\n- **File Path Issues**: Ensure you're in the correct directory when running the script.\n`;
-  } else if (projectType.toLowerCase().includes('react')) {
-    content += `- **Step 1**: Open your terminal.\n`;
-    content += `- **Step 2**: Navigate to the project directory:\n`;
-    content += `  \`\`\`bash\n  cd ${ROOT_DIR}/${projectName}\n  \`\`\`\n`;
-    content += `- **Step 3**: Install dependencies:\n`;
-    content += `  \`\`\`bash\n  npm install\n  \`\`\`\n`;
-    content += `- **Step 4**: Start the development server:\n`;
-    content += `  \`\`\`bash\n  npm start\n  \`\`\`\n`;
-    content += `- **Step 5**: Open http://localhost:3000 in your browser.\n\n`;
-    content += `### Dependencies\n- **Node.js**: Version 14 or higher (includes npm). Download from https://nodejs.org/.\n- **React**: Included in the project (installed via npm).\n- **Tailwind CSS**: Assumed to be set up in the project (via npm).\n\n`;
-    content += `### Compatibility\n- Works on Windows, macOS, and Linux.\n- Requires Node.js and npm to be installed.\n- Best viewed in modern browsers (Chrome, Firefox, Edge).\n\n`;
-    content += `### Potential Issues\n- **Node.js Not Installed**: If Node.js isn't installed, you'll see a "command not found" error. Install Node.js and npm.\n- **Port Conflict**: If port 3000 is in use, the React dev server will prompt you to use a different port.\n- **Dependency Errors**: If \`npm install\` fails, delete the \`node_modules\` folder and \`package-lock.json\` file, then run \`npm install\` again.\n`;
-  } else {
-    content += `- **Step 1**: Navigate to the project directory: \`${ROOT_DIR}/${projectName}\`\n`;
-    content += `- **Step 2**: Refer to the specific instructions in the \`README.md\` file for running the project.\n\n`;
-    content += `### Dependencies\n- Refer to the \`README.md\` file for any required dependencies.\n\n`;
-    content += `### Compatibility\n- Refer to the \`README.md\` file for compatibility information.\n\n`;
-    content += `### Potential Issues\n- **Missing Dependencies**: Ensure all required software and libraries are installed as per the \`README.md\`.\n- **Environment Setup**: Check your environment configuration if the project fails to run.\n`;
-  }
-
-  return content;
-};
+// execute.md comes from the project's template rather than the model
+const generateExecuteMdContent = (projectType: string, projectName: string): string =>
+  renderExecuteMd(activeTemplate || pickTemplate(templateRegistry.templates, projectType), projectType, projectName, ROOT_DIR);
 
 const showSuccessAnimation = () => {
   const asciiArt = `
@@ -128,37 +270,29 @@ const showSuccessAnimation = () => {
   ${chalk.green('============================================')}
   ${chalk.yellow('       🚀 Ready to Launch! 🚀')}
   ${chalk.white('        Your project is now live in:')}
-  ${chalk.cyan.bold(`          ${ROOT_DIR}/${projectName || '___'}`)}
+  ${chalk.cyan.bold(`          ${ROOT_DIR}/${session.projectName || '___'}`)}
   ${chalk.green('============================================')}
   `;
   console.log(asciiArt);
 
   console.log(chalk.cyan('========= How to Start Your Project ========='));
   console.log(chalk.white(`📜 Detailed instructions are available in:`));
-  console.log(chalk.white(`   ${ROOT_DIR}/${projectName || '___'}/execute.md`));
+  console.log(chalk.white(`   ${ROOT_DIR}/${session.projectName || '___'}/execute.md`));
   console.log(chalk.white(`   This includes steps to run the project, dependencies, compatibility, and troubleshooting.`));
   console.log(chalk.cyan('============================================'));
 };
 
-const readDirectory = (dirPath: string = ROOT_DIR) => {
+// Lists a directory; recursive walks subfolders (skipping node_modules, .git, build output) up to maxDepth levels
+const readDirectory = (dirPath: string = ROOT_DIR, recursive: boolean = false, maxDepth: number = 5) => {
   try {
     ensureRootDir();
-    const items = fs.readdirSync(dirPath);
-    const fileDetails = items.map(item => {
-      const itemPath = path.join(dirPath, item);
-      const stats = fs.statSync(itemPath);
-      return {
-        name: item,
-        path: itemPath,
-        isDirectory: stats.isDirectory(),
-        size: stats.size,
-        created: stats.birthtime,
-      };
-    });
+    const target = resolveWorkspacePath(workspace, dirPath);
+    if (isViolation(target)) return reportViolation(target);
+    const fileDetails = walkDirectory(target.absolute, target.display, recursive ? Math.max(1, maxDepth) : 1, [STATE_DIR_NAME], workspace);
     return {
-      path: dirPath,
+      path: target.display,
       items: fileDetails,
-      message: `Successfully read directory: ${dirPath}`,
+      message: `Successfully read directory: ${target.display}`,
     };
   } catch (error) {
     return {
@@ -169,25 +303,48 @@ const readDirectory = (dirPath: string = ROOT_DIR) => {
   }
 };
 
-const createDynamicFile = (args: { fileName: string; content: string }) => {
+const readFile = (filePath: string) => {
+  ensureRootDir();
+  const result = readTextFile(workspace, filePath);
+  if (isViolation(result)) return reportViolation(result);
+  if (typeof result !== 'string') console.log(chalk.gray(`📖 Read ${result.path} (${result.lines} lines)`));
+  return result;
+};
+
+const searchProjectFiles = (args: { query: string; dirPath?: string; regex?: boolean; caseSensitive?: boolean }) => {
+  ensureRootDir();
+  const result = searchFiles(workspace, args.query, { ...args, hidden: [STATE_DIR_NAME] });
+  if (isViolation(result)) return reportViolation(result);
+  if (typeof result !== 'string') console.log(chalk.gray(`🔎 ${result.message}`));
+  return result;
+};
+
+const createDynamicFile = (args: { fileName: string; content: string }): string | WorkspaceViolation => {
   try {
     ensureRootDir();
-    const fileName = normalizePath(args.fileName);
-    const dirPath = path.dirname(fileName);
-    if (dirPath !== ROOT_DIR && !fs.existsSync(dirPath)) {
+    const target = resolveWorkspacePath(workspace, args.fileName);
+    if (isViolation(target)) return reportViolation(target);
+    if (!target.relative) throw new Error('a file name inside a project is required');
+    const fileName = target.display;
+    const dirPath = path.dirname(target.absolute);
+    if (!fs.existsSync(dirPath)) {
       fs.mkdirSync(dirPath, { recursive: true });
     }
-    if (fs.existsSync(fileName)) {
-      const existingContent = fs.readFileSync(fileName, 'utf-8');
+    if (fs.existsSync(target.absolute)) {
+      const existingContent = fs.readFileSync(target.absolute, 'utf-8');
       if (existingContent === args.content) {
         console.log(chalk.yellow(`📄 ${fileName} unchanged (content identical)`));
         return `File ${fileName} unchanged (content identical)`;
       }
-      fs.writeFileSync(fileName, args.content);
+      if (activeCheckpoint) captureFile(CHECKPOINTS_DIR, activeCheckpoint, ROOT_DIR, target.relative);
+      writeFileAtomic(target.absolute, args.content);
+      emitAgentEvent({ type: 'file_written', path: fileName, action: 'updated', before: hashContent(existingContent), after: hashContent(args.content) });
       console.log(chalk.blue(`🔄 ${fileName} updated successfully`));
       return `File ${fileName} updated successfully`;
     }
-    fs.writeFileSync(fileName, args.content);
+    if (activeCheckpoint) captureFile(CHECKPOINTS_DIR, activeCheckpoint, ROOT_DIR, target.relative);
+    writeFileAtomic(target.absolute, args.content);
+    emitAgentEvent({ type: 'file_written', path: fileName, action: 'created', before: null, after: hashContent(args.content) });
     console.log(chalk.green(`✅ ${fileName} created successfully`));
     return `File ${fileName} created successfully`;
   } catch (error) {
@@ -196,36 +353,35 @@ const createDynamicFile = (args: { fileName: string; content: string }) => {
   }
 };
 
-const generateProjectStructure = async (projectType: string, description: string): Promise<string> => {
-  const prompt = `Generate a JSON object representing the folder and file structure for a ${projectType} project that ${description}. Keep the structure minimal and appropriate for the project type (e.g., a simple HTML project should only have essential files like index.html, style.css, and script.js; a Python script should avoid unnecessary folders like src/ or tests/ unless explicitly needed). Include all necessary files and folders with their relative paths inside the "${ROOT_DIR}" directory. Always include a "README.md" file for project details and an "execute.md" file for execution instructions. Return only the JSON object with a "structure" array. Example for an HTML project:
-  {
-    "structure": [
-      "${ROOT_DIR}/todo-app/index.html",
-      "${ROOT_DIR}/todo-app/style.css",
-      "${ROOT_DIR}/todo-app/script.js",
-      "${ROOT_DIR}/todo-app/README.md",
-      "${ROOT_DIR}/todo-app/execute.md"
-    ]
-  }
-  Example for a simple Python script:
-  {
-    "structure": [
-      "${ROOT_DIR}/calculator/calculator.py",
-      "${ROOT_DIR}/calculator/README.md",
-      "${ROOT_DIR}/calculator/execute.md"
-    ]
+// Stream handler that forwards the text of a reply to a progress line, or nothing when streaming is off
+const streamTo = (onText?: (text: string, reset?: boolean) => void) =>
+  STREAM_OUTPUT && onText ? (delta: StreamDelta) => onText(delta.text || '', delta.reset) : undefined;
+
+const generateProjectStructure = async (
+  projectType: string,
+  description: string,
+  signal?: AbortSignal,
+  onText?: (text: string, reset?: boolean) => void,
+  // A proposal the user asked to change, with their feedback
+  revision?: { structure: string[]; feedback: string }
+): Promise<string> => {
+  const template = activeTemplate || pickTemplate(templateRegistry.templates, `${projectType} ${description}`);
+  const projectName = session.projectName || 'my-project';
+  const stack = template.stack.length ? ` (${template.stack.join(', ')})` : '';
+  const prompt = `Generate a JSON object representing the folder and file structure for a ${projectType} project that ${description}. Keep the structure minimal and appropriate for the project type (e.g., a simple HTML project should only have essential files like index.html, style.css, and script.js; a Python script should avoid unnecessary folders like src/ or tests/ unless explicitly needed). Include all necessary files and folders with their relative paths inside the "${ROOT_DIR}" directory. Always include a "README.md" file for project details and an "execute.md" file for execution instructions. Return only the JSON object with a "structure" array. Start from the baseline of the "${template.name}" template${stack} and add or drop files only where the project needs it:
+  ${JSON.stringify({ structure: templateStructure(template, projectName, ROOT_DIR) }, null, 2).replace(/\n/g, '\n  ')}${
+    revision
+      ? `\n\nThe user reviewed this proposal:\n  ${JSON.stringify({ structure: revision.structure })}\nand asked for these changes: "${revision.feedback}". Apply them and return the complete revised JSON object.`
+      : ''
   }`;
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      }),
+    const { text } = await provider.generate({
+      systemInstruction: rulesFor(session.projectName) || undefined,
+      contents: [{ role: 'user', parts: [{ text: prompt }] }],
+      signal,
+      onDelta: streamTo(onText),
     });
-    if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
-    const data: any = await response.json();
-    const rawText = data.candidates?.[0]?.content?.parts?.[0]?.text || '{}';
+    const rawText = text || '{}';
     const cleanedText = rawText
       .replace(/^```json\s*|\s*```$/gm, '')
       .replace(/^```.*$/gm, '')
@@ -237,23 +393,46 @@ const generateProjectStructure = async (projectType: string, description: string
       return '{}';
     }
   } catch (error) {
+    if (isAbortError(error)) throw error;
     return '{}';
   }
 };
 
-const generateFileContent = async (filePath: string, projectType: string, description: string, isUpdate: boolean = false, updateIssue?: string): Promise<string> => {
-  const normalizedFilePath = normalizePath(filePath);
-  const fileType = path.extname(filePath).slice(1) || path.basename(filePath);
-  let prompt = `Generate production-ready content for a ${fileType} file at "${normalizedFilePath}" in a ${projectType} project that ${description}. Follow best practices (e.g., modular code, error handling, comments). For config files, include sensible defaults. For source files, include necessary imports/exports. Return ONLY the file content.`;
+// Budget for the project files quoted next to a file being updated
+const RELATED_FILES_LIMIT = 5;
+const RELATED_CHARS_LIMIT = 15000;
 
-  if (fileType === 'md' && normalizedFilePath.endsWith('execute.md')) {
-    return generateExecuteMdContent(projectType, projectName || 'unknown');
+// Current content of the file being updated plus a few other files of the same
+// project, so fixes build on what is on disk instead of starting over
+const buildUpdateContext = (filePath: string, updateIssue?: string): string => {
+  const quote = (label: string, content: string) => `\n\n${label}:\n<<<FILE\n${content}\nFILE>>>`;
+  const current = readTextFile(workspace, filePath);
+  let context = typeof current === 'object' && !isViolation(current)
+    ? quote(`Current content of "${current.path}"${current.truncated ? ' (truncated)' : ''}`, current.content)
+    : '\n\nThe file does not exist yet.';
+
+  const target = resolveWorkspacePath(workspace, filePath);
+  const projectDir = isViolation(target) ? '' : target.relative.split('/')[0];
+  const projectPath = path.join(ROOT_DIR, projectDir);
+  if (projectDir && !isViolation(target) && fs.existsSync(projectPath) && fs.statSync(projectPath).isDirectory()) {
+    const flatten = (entries: FileEntry[]): FileEntry[] => entries.flatMap(entry => (entry.children ? flatten(entry.children) : entry.isDirectory ? [] : [entry]));
+    const related = flatten(walkDirectory(projectPath, `${ROOT_DIR}/${projectDir}`, 5, [STATE_DIR_NAME], workspace))
+      .filter(entry => entry.path !== target.display && !entry.name.endsWith('execute.md'))
+      .sort((a, b) => a.size - b.size);
+    let budget = RELATED_CHARS_LIMIT;
+    related.slice(0, RELATED_FILES_LIMIT).forEach(entry => {
+      const file = readTextFile(workspace, entry.path, budget);
+      if (typeof file !== 'object' || isViolation(file) || budget <= 0) return;
+      context += quote(`Related file "${file.path}"`, file.content);
+      budget -= file.content.length;
+    });
   }
 
-  if (fileType === 'html' || projectType.toLowerCase().includes('react') || projectType.toLowerCase().includes('web')) {
-    prompt = `You are an expert UI developer specializing in creating beautiful, production-ready web interfaces. Your task is to generate a ${fileType} file at "${normalizedFilePath}" for a ${projectType} project that ${description}. Follow these guidelines to ensure a visually appealing and functional UI:
+  return `${context}\n\n${updateIssue ? `Fix this issue: "${updateIssue}". ` : ''}Change only what is needed and keep everything else in the current content as it is. Return the complete updated file.`;
+};
 
-    Analysis Requirements:
+// Style guide for HTML, React and other web files; replaced by prompts.webUi in the config
+const DEFAULT_UI_GUIDELINES = `Analysis Requirements:
     1. Component Structure:
        - Use a clear hierarchy and layout structure
        - Include interactive elements and states (e.g., buttons, forms)
@@ -302,10 +481,36 @@ const generateFileContent = async (filePath: string, projectType: string, descri
        - Handle events properly (e.g., onclick)
 
     Output Requirements:
-    - Provide only the complete, working code for the ${fileType} file
+    - Provide only the complete, working code for the {{fileType}} file
     - Include all necessary Tailwind classes (via CDN for HTML)
     - No explanations or comments
-    - Ready-to-use implementation
+    - Ready-to-use implementation`;
+
+const uiGuidelines = (fileType: string): string => (config.prompts.webUi || DEFAULT_UI_GUIDELINES).replace(/\{\{fileType\}\}/g, fileType);
+
+// Content of one file; throws when the request fails, is cancelled or the streamed reply
+// does not assemble into a complete file, so the caller can mark just that file
+const generateFileContent = async (
+  filePath: string,
+  projectType: string,
+  description: string,
+  isUpdate: boolean = false,
+  updateIssue?: string,
+  signal?: AbortSignal,
+  onText?: (text: string, reset?: boolean) => void
+): Promise<{ value: string; usage?: TokenUsage }> => {
+  const normalizedFilePath = normalizePath(filePath);
+  const fileType = path.extname(filePath).slice(1) || path.basename(filePath);
+  let prompt = `Generate production-ready content for a ${fileType} file at "${normalizedFilePath}" in a ${projectType} project that ${description}. Follow best practices (e.g., modular code, error handling, comments). For config files, include sensible defaults. For source files, include necessary imports/exports. Return ONLY the file content.`;
+
+  if (fileType === 'md' && normalizedFilePath.endsWith('execute.md')) {
+    return { value: generateExecuteMdContent(projectType, session.projectName || 'unknown') };
+  }
+
+  if (fileType === 'html' || projectType.toLowerCase().includes('react') || projectType.toLowerCase().includes('web')) {
+    prompt = `You are an expert UI developer specializing in creating beautiful, production-ready web interfaces. Your task is to generate a ${fileType} file at "${normalizedFilePath}" for a ${projectType} project that ${description}. Follow these guidelines to ensure a visually appealing and functional UI:
+
+    ${uiGuidelines(fileType)}
 
     ${isUpdate && updateIssue ? `The file has an issue: "${updateIssue}". Update the content to fix this issue while preserving the file's core functionality.` : 'If the file exists, enhance or update the existing functionality while preserving its purpose.'}
 
@@ -315,81 +520,568 @@ const generateFileContent = async (filePath: string, projectType: string, descri
     prompt += ` If this Python script generates a web interface (e.g., using Flask), ensure the HTML output follows the same UI guidelines as above for HTML files.`;
   }
 
+  if (['package.json', 'requirements.txt'].includes(path.basename(filePath))) {
+    prompt += ` Only list packages that exist on the public registry, with version ranges of releases you know exist (e.g. "^18.2.0" or ">=3.0,<4"); never invent versions. The dependencies are checked against the registry before they are installed.`;
+  }
+
+  if (config.prompts.file) {
+    prompt += `\n\n${config.prompts.file}`;
+  }
+
+  if (isUpdate) {
+    prompt += buildUpdateContext(filePath, updateIssue);
+  }
+
+  const { text, usage, truncated } = await provider.generate({
+    systemInstruction: rulesFor(session.projectName) || undefined,
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    signal,
+    onDelta: streamTo(onText),
+  });
+  return { value: assembleFileContent(text, truncated), usage };
+};
+
+// Set when stdin ends; a command-line run that still needs an answer then stops instead of hanging
+let inputClosed = false;
+let questionPending = false;
+// In serve mode questions are answered over HTTP instead of on the terminal
+let agentServer: AgentServer | null = null;
+
+const stopForMissingInput = (): never => {
+  console.log(chalk.red('\n❌ A confirmation is needed but no more input is available. Pass --yes to approve automatically.'));
+  process.exit(1);
+};
+
+const ask = (question: string): Promise<string> => {
+  // A cancelled request declines whatever it still asks
+  if (activeAbort?.signal.aborted) return Promise.resolve('no');
+  if (agentServer) return agentServer.ask(question);
+  if (inputClosed && cli.command !== 'interactive') stopForMissingInput();
+  questionPending = true;
+  return new Promise(resolve =>
+    rl.question(question, answer => {
+      questionPending = false;
+      resolve(answer);
+    })
+  );
+};
+
+// Yes/no question; answered automatically with --yes
+const confirm = async (question: string): Promise<boolean> => {
+  const subject = stripAnsi(question).replace(/\s*\(yes\/no\):\s*$/, '');
+  if (config.approval === 'auto' && !activeAbort?.signal.aborted) {
+    console.log(`${question}yes (approval: auto)`);
+    emitAgentEvent({ type: 'approval', subject, decision: 'approved', by: 'auto' });
+    return true;
+  }
+  const approved = (await ask(question)).trim().toLowerCase() === 'yes';
+  emitAgentEvent({ type: 'approval', subject, decision: approved ? 'approved' : 'rejected', by: 'user' });
+  return approved;
+};
+
+// Logs the user's decision on one reviewed file change
+const recordReview = (display: string, proposed: string, decision: ReviewDecision) => {
+  const outcome = decision.action === 'reject' ? 'rejected' : decision.action === 'accept_all' ? 'approved_all' : decision.content !== proposed ? 'edited' : 'approved';
+  emitAgentEvent({ type: 'approval', subject: 'file change', path: display, decision: outcome, by: 'user', reason: decision.reason });
+};
+
+// Files outside the approved structure (and not below one of its folders) are written only if the user agrees;
+// allowed files join the structure so they are asked about once
+const allowedByStructure = async (display: string): Promise<boolean> => {
+  if (!approvedStructure || approvedStructure.some(entry => display === entry || display.startsWith(`${entry}/`))) return true;
+  if (!(await confirm(chalk.yellow.bold(`⚠️ ${display} is not in the approved structure. Write it anyway? (yes/no): `)))) return false;
+  approvedStructure.push(display);
+  return true;
+};
+
+const outsideStructure = (display: string): ReviewRejection => {
+  console.log(chalk.yellow(`⏭️ ${display} skipped, it is not in the approved structure`));
+  return { error: 'rejected_by_user', path: display, message: `${display} is not in the approved project structure and the user did not allow it. Approved files: ${approvedStructure!.join(', ')}` };
+};
+
+// Writes one file requested by the model, showing a diff for approval first in review mode.
+// state.acceptAll is shared by the files of one run so "accept all" skips the remaining prompts.
+const writeFileWithReview = async (
+  file: { fileName: string; content: string },
+  state: { acceptAll: boolean }
+): Promise<string | WorkspaceViolation | ReviewRejection> => {
+  let content = file.content;
+  let edited = false;
+  const target = resolveWorkspacePath(workspace, file.fileName);
+  if (!isViolation(target) && target.relative && !(await allowedByStructure(target.display))) return outsideStructure(target.display);
+  if (reviewMode && !state.acceptAll && !isViolation(target) && target.relative) {
+    const current = fs.existsSync(target.absolute) ? fs.readFileSync(target.absolute, 'utf-8') : null;
+    if (current !== content) {
+      const decision = await reviewFileChange(target.display, current, content, ask);
+      recordReview(target.display, content, decision);
+      if (decision.action === 'reject') {
+        console.log(chalk.yellow(`⏭️ ${target.display} rejected`));
+        const reason = decision.reason ? ` Reason: ${decision.reason}` : '';
+        return { error: 'rejected_by_user', path: target.display, message: `The user rejected the change to ${target.display}.${reason}` };
+      }
+      if (decision.action === 'accept_all') state.acceptAll = true;
+      edited = decision.content !== content;
+      content = decision.content;
+    }
+  }
+  const result = createDynamicFile({ fileName: file.fileName, content });
+  if (typeof result === 'string' && !result.startsWith('Error')) {
+    recordFileTouched(session, normalizePath(file.fileName));
+    return edited ? `${result} (edited by the user before writing)` : result;
+  }
+  return result;
+};
+
+// Applies targeted edits to one or more files. Either every file is written or none is:
+// all patches are checked against the files on disk (and reviewed) before the first write.
+const applyPatches = async (
+  args: { patches: FilePatch[] },
+  state: { acceptAll: boolean }
+): Promise<string[] | WorkspaceViolation | ReviewRejection | { error: 'patch_failed'; message: string; failures: PatchFailure[] }> => {
+  ensureRootDir();
+  const changes: { display: string; relative: string; absolute: string; current: string | null; content: string }[] = [];
+  const failures: PatchFailure[] = [];
+  for (const patch of args.patches) {
+    const target = resolveWorkspacePath(workspace, patch.fileName);
+    if (isViolation(target)) return reportViolation(target);
+    if (changes.some(change => change.absolute === target.absolute)) {
+      failures.push({ error: 'patch_failed', path: target.display, message: `${target.display} appears more than once; combine its edits into one patch` });
+      continue;
+    }
+    const current = fs.existsSync(target.absolute) ? fs.readFileSync(target.absolute, 'utf-8') : null;
+    const result = applyFilePatch(patch, target.display, current);
+    if (isPatchFailure(result)) failures.push(result);
+    else changes.push({ display: target.display, relative: target.relative, absolute: target.absolute, current, content: result });
+  }
+  if (failures.length > 0) {
+    failures.forEach(failure => console.log(chalk.red(`❌ ${failure.message}`)));
+    return { error: 'patch_failed', message: 'No files were changed because some patches did not apply. Fix them and send all patches again.', failures };
+  }
+
+  for (const change of changes) {
+    if (!(await allowedByStructure(change.display))) return outsideStructure(change.display);
+  }
+  for (const change of changes) {
+    if (!reviewMode || state.acceptAll || change.current === change.content) continue;
+    const decision = await reviewFileChange(change.display, change.current, change.content, ask);
+    recordReview(change.display, change.content, decision);
+    if (decision.action === 'reject') {
+      console.log(chalk.yellow(`⏭️ ${change.display} rejected, no files of this patch were changed`));
+      const reason = decision.reason ? ` Reason: ${decision.reason}` : '';
+      return { error: 'rejected_by_user', path: change.display, message: `The user rejected the change to ${change.display}, so none of the patched files were changed.${reason}` };
+    }
+    if (decision.action === 'accept_all') state.acceptAll = true;
+    change.content = decision.content;
+  }
+
+  const written: typeof changes = [];
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      }),
+    for (const change of changes) {
+      if (change.current === change.content) continue;
+      if (activeCheckpoint) captureFile(CHECKPOINTS_DIR, activeCheckpoint, ROOT_DIR, change.relative);
+      fs.mkdirSync(path.dirname(change.absolute), { recursive: true });
+      writeFileAtomic(change.absolute, change.content);
+      written.push(change);
+    }
+  } catch (error) {
+    // Put back what was already written so a failed write leaves no partial patch behind
+    written.forEach(change => (change.current === null ? fs.rmSync(change.absolute, { force: true }) : fs.writeFileSync(change.absolute, change.current)));
+    console.log(chalk.red(`❌ Error applying patch: ${(error as Error).message}`));
+    return [`Error applying patch: ${(error as Error).message}. No files were changed.`];
+  }
+
+  return changes.map(change => {
+    if (change.current === change.content) {
+      console.log(chalk.yellow(`📄 ${change.display} unchanged (content identical)`));
+      return `File ${change.display} unchanged (content identical)`;
+    }
+    recordFileTouched(session, change.display);
+    emitAgentEvent({
+      type: 'file_written',
+      path: change.display,
+      action: change.current === null ? 'created' : 'patched',
+      before: change.current === null ? null : hashContent(change.current),
+      after: hashContent(change.content),
     });
-    if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
-    const data: any = await response.json();
-    return data.candidates?.[0]?.content?.parts?.[0]?.text || `// Default ${fileType} content`;
+    console.log(change.current === null ? chalk.green(`✅ ${change.display} created successfully`) : chalk.blue(`🩹 ${change.display} patched successfully`));
+    return `File ${change.display} ${change.current === null ? 'created' : 'patched'} successfully`;
+  });
+};
+
+// Runs a project's command inside its folder after the user confirms it
+const runProjectCommand = async (args: { projectDir: string; command: string; timeoutSeconds?: number }): Promise<CommandResult | WorkspaceViolation | ReviewRejection | string> => {
+  const target = resolveWorkspacePath(workspace, args.projectDir);
+  if (isViolation(target)) return reportViolation(target);
+  if (!fs.existsSync(target.absolute) || !fs.statSync(target.absolute).isDirectory()) {
+    return `Error running command: project directory ${target.display} does not exist`;
+  }
+  if (!(await confirm(chalk.cyan.bold(`▶️ Run "${args.command}" in ${target.display}? (yes/no): `)))) {
+    return { error: 'rejected_by_user', path: target.display, message: `The user declined to run "${args.command}".` };
+  }
+  const timeoutSeconds = Math.min(args.timeoutSeconds || RUN_TIMEOUT_SECONDS, 600);
+  console.log(chalk.cyan(`========= Running: ${args.command} =========`));
+  const result = await runCommand(args.command, target.absolute, { timeoutMs: timeoutSeconds * 1000, stream: true, signal: activeAbort?.signal });
+  const status = result.aborted ? 'was cancelled' : result.timedOut ? `stopped after ${timeoutSeconds}s` : `exited with code ${result.exitCode}`;
+  console.log(commandSucceeded(result) ? chalk.green(`\n✅ ${args.command} ${status}`) : chalk.red(`\n❌ ${args.command} ${status}`));
+  return { ...result, cwd: target.display };
+};
+
+// Checks the package.json and requirements.txt of a project against the registry (or the offline cache),
+// then installs them after the user confirms. Each install is recorded in the project registry.
+const installDependencies = async (args: {
+  projectDir: string;
+}): Promise<string | WorkspaceViolation | ReviewRejection | { error: 'dependency_resolution_failed' | 'install_failed'; path: string; message: string; [key: string]: unknown } | object[]> => {
+  const target = resolveWorkspacePath(workspace, args.projectDir);
+  if (isViolation(target)) return reportViolation(target);
+  if (!target.relative || !isDirectoryPath(target.absolute)) return `Error installing dependencies: project directory ${target.display} does not exist`;
+  let manifests: DependencyManifest[];
+  try {
+    manifests = readManifests(target.absolute);
   } catch (error) {
-    return `// Error generating content for ${normalizedFilePath}`;
+    return `Error installing dependencies: ${target.display}/${(error as Error).message}`;
   }
+  if (manifests.length === 0) return `${target.display} has no package.json or requirements.txt; nothing to install`;
+
+  const [project, ...subfolders] = target.relative.split('/');
+  const options: RegistryOptions = { ...config.dependencies, cacheDir: PACKAGE_CACHE_DIR, timeoutMs: REGISTRY_TIMEOUT_MS };
+  const installed: object[] = [];
+  for (const manifest of manifests) {
+    const display = `${target.display}/${manifest.file}`;
+    const source = options.offline ? 'the offline cache' : manifest.manager === 'npm' ? options.npmRegistry : options.pipIndex;
+    console.log(chalk.cyan(`📦 Checking ${manifest.packages.length} package(s) of ${display} against ${source}...`));
+    const resolved = await resolvePackages(manifest, options);
+    resolved.forEach(pkg => {
+      const label = `${pkg.name}${pkg.spec ? ` ${pkg.spec}` : ''}${pkg.dev ? ' (dev)' : ''}`;
+      if (pkg.problem) console.log(chalk.red(`   ❌ ${label}: ${pkg.problem}`));
+      else if (pkg.unchecked) console.log(chalk.yellow(`   ⏭️ ${label}: not checked (${pkg.unchecked})`));
+      else console.log(chalk.green(`   ✅ ${label} → ${pkg.version}`));
+    });
+    const problems = resolved.filter(pkg => pkg.problem).map(({ name, spec, problem }) => ({ name, spec, problem }));
+    if (problems.length > 0) {
+      const list = problems.map(pkg => `${pkg.name} "${pkg.spec}": ${pkg.problem}`).join('; ');
+      return { error: 'dependency_resolution_failed', path: display, message: `Nothing was installed. Fix these entries of ${display}: ${list}`, problems };
+    }
+    let command: string;
+    try {
+      command = installCommand(manifest, target.absolute, options);
+    } catch (error) {
+      return `Error installing dependencies: ${(error as Error).message}`;
+    }
+    if (!(await confirm(chalk.cyan.bold(`📦 Install ${manifest.packages.length} package(s) from ${display} with ${manifest.manager}${options.offline ? ' (offline)' : ''}? (yes/no): `)))) {
+      return { error: 'rejected_by_user', path: display, message: `The user declined installing the dependencies of ${display}.` };
+    }
+
+    const lockfile = `${target.relative}/${LOCKFILES[manifest.manager]}`;
+    const lockPath = path.join(target.absolute, LOCKFILES[manifest.manager]);
+    const lockBefore = fs.existsSync(lockPath) ? hashContent(fs.readFileSync(lockPath, 'utf-8')) : null;
+    if (activeCheckpoint) captureFile(CHECKPOINTS_DIR, activeCheckpoint, ROOT_DIR, lockfile);
+    console.log(chalk.cyan(`========= Installing: ${manifest.manager} =========`));
+    const result = await runCommand(command, target.absolute, { timeoutMs: INSTALL_TIMEOUT_SECONDS * 1000, stream: true, signal: activeAbort?.signal });
+    const succeeded = result.exitCode === 0;
+    const hasLock = succeeded && fs.existsSync(lockPath);
+    if (hasLock) {
+      const lockAfter = hashContent(fs.readFileSync(lockPath, 'utf-8'));
+      if (lockAfter !== lockBefore) {
+        recordFileTouched(session, `${ROOT_DIR}/${lockfile}`);
+        emitAgentEvent({ type: 'file_written', path: `${ROOT_DIR}/${lockfile}`, action: lockBefore ? 'updated' : 'created', before: lockBefore, after: lockAfter });
+      }
+    }
+
+    const versions = lockedVersions(manifest, target.absolute);
+    const record: InstallRecord = {
+      manager: manifest.manager,
+      file: [...subfolders, manifest.file].join('/'),
+      status: succeeded ? 'installed' : 'failed',
+      offline: options.offline,
+      at: new Date().toISOString(),
+      lockfile: hasLock ? LOCKFILES[manifest.manager] : undefined,
+      packages: manifest.packages.map(pkg => ({ name: pkg.name, spec: pkg.spec, version: succeeded ? versions.get(pkg.name) : undefined })),
+    };
+    const previous = projectRegistry.projects[project]?.dependencies || [];
+    recordProject(projectRegistry, ROOT_DIR, project, { dependencies: [...previous.filter(install => install.file !== record.file), record] });
+    persistRegistry();
+
+    if (!succeeded) {
+      const status = result.aborted ? 'was cancelled' : result.timedOut ? `was stopped after ${INSTALL_TIMEOUT_SECONDS}s` : `exited with code ${result.exitCode}`;
+      console.log(chalk.red(`\n❌ Installing the dependencies of ${display} ${status}`));
+      return { error: 'install_failed', path: display, message: `${result.command} ${status}.`, stdout: result.stdout, stderr: result.stderr };
+    }
+    console.log(chalk.green(`\n✅ Dependencies of ${display} installed${hasLock ? `, locked in ${ROOT_DIR}/${lockfile}` : ''}`));
+    installed.push({ file: display, manager: manifest.manager, lockfile: record.lockfile, packages: record.packages, durationMs: result.durationMs });
+  }
+  return installed;
 };
 
-const presentStructure = async (structure: string[]): Promise<boolean> => {
-  return new Promise(resolve => {
+// Prints what installDependencies returned when it runs outside a request; its progress is printed as it goes
+const reportInstall = (result: Awaited<ReturnType<typeof installDependencies>>) => {
+  if (typeof result === 'string') console.log(result.startsWith('Error') ? chalk.red(`❌ ${result}`) : chalk.white(`📦 ${result}`));
+  else if (!Array.isArray(result) && 'error' in result && result.error !== 'workspace_violation') console.log(chalk.yellow(`⚠️ ${result.message}`));
+};
+
+// Runs the verification checks on the written files, grouped by project folder
+const verifyWrittenFiles = async (files: Set<string>): Promise<VerificationReport[]> => {
+  const byProject = new Map<string, string[]>();
+  files.forEach(file => {
+    const target = resolveWorkspacePath(workspace, file);
+    if (isViolation(target) || !target.relative.includes('/')) return;
+    const [project, ...rest] = target.relative.split('/');
+    byProject.set(project, [...(byProject.get(project) || []), rest.join('/')]);
+  });
+  const reports: VerificationReport[] = [];
+  for (const [project, changed] of byProject) {
+    console.log(chalk.cyan(`🧪 Verifying ${ROOT_DIR}/${project}...`));
+    const report = await verifyProject(path.join(ROOT_DIR, project), `${ROOT_DIR}/${project}`, changed, {
+      timeoutMs: VERIFY_TIMEOUT_SECONDS * 1000,
+      approveTests: command => confirm(chalk.cyan.bold(`🧪 Run the project's tests ("${command}") in ${ROOT_DIR}/${project}? They execute the generated code. (yes/no): `)),
+    });
+    emitAgentEvent({ type: 'verification', report });
+    reports.push(report);
+  }
+  return reports;
+};
+
+const showVerification = (report: VerificationReport) => {
+  const count = (status: string) => report.checks.filter(check => check.status === status).length;
+  const color = report.passed ? chalk.green : chalk.red;
+  console.log(color(`🧪 Verification of ${report.project}: ${count('passed')} passed, ${count('failed')} failed, ${count('skipped')} skipped`));
+  const icons = { passed: '✅', failed: '❌', skipped: '⏭️' };
+  report.checks.forEach(check => {
+    console.log(chalk.white(`   ${icons[check.status]} ${check.name}: ${check.target}${check.status === 'skipped' && check.details ? ` (${check.details})` : ''}`));
+    if (check.status === 'failed' && check.details) console.log(chalk.red(check.details.replace(/^/gm, '      ')));
+  });
+};
+
+const STRUCTURE_PROMPT = 'Approve this structure? yes / no / add <path> / remove <n|path> / rename <n|path> <new path> / describe a change: ';
+
+// Shows the proposed structure until the user approves it. Entries can be added, removed and renamed
+// directly; any other answer is sent to the model as feedback for a revised proposal.
+// Returns the approved structure, or null when the user declines it.
+const presentStructure = async (proposal: string[], request: { projectType: string; description: string; signal: AbortSignal }): Promise<string[] | null> => {
+  let structure = proposal;
+  const prefix = projectPrefix(proposal, ROOT_DIR, session.projectName);
+  while (true) {
     console.log(chalk.cyan('========= Proposed Project Structure ========='));
-    structure.forEach(file => console.log(chalk.white(`  📂 ${file}`)));
+    structure.forEach((file, index) => console.log(chalk.white(`  ${String(index + 1).padStart(2)}. 📂 ${file}`)));
     console.log(chalk.cyan('============================================='));
-    rl.question(chalk.cyan.bold('Do you approve this structure? (yes/no): '), async answer => {
-      if (answer.trim().toLowerCase() === 'yes') {
-        await showApprovalAnimation();
-        resolve(true);
-      } else {
-        resolve(false);
+    if (config.approval === 'auto' || request.signal.aborted) {
+      if (!(await confirm(chalk.cyan.bold('Do you approve this structure? (yes/no): ')))) return null;
+      break;
+    }
+    const answer = await ask(chalk.cyan.bold(STRUCTURE_PROMPT));
+    const command = parseStructureCommand(answer);
+    if (!command) continue;
+    if (command.kind === 'approve' || command.kind === 'abort') {
+      const decision = command.kind === 'abort' ? 'rejected' : structure.join('\n') === proposal.join('\n') ? 'approved' : 'edited';
+      emitAgentEvent({ type: 'approval', subject: 'project structure', decision, by: 'user' });
+      if (command.kind === 'abort') return null;
+      break;
+    }
+    if (command.kind !== 'feedback') {
+      try {
+        structure = editStructure(structure, command, prefix);
+      } catch (error) {
+        console.log(chalk.yellow(`⚠️ ${(error as Error).message}`));
       }
-    });
-  });
+      continue;
+    }
+    const current = structure;
+    const [result] = await runGenerationJobs(
+      [
+        {
+          label: 'Project structure',
+          run: async (signal, onText) => ({
+            value: await generateProjectStructure(request.projectType, request.description, signal, onText, { structure: current, feedback: command.text }),
+          }),
+        },
+      ],
+      { title: 'Revising project structure', concurrency: 1, signal: request.signal }
+    );
+    const revised: unknown = result.status === 'done' ? JSON.parse(result.value!).structure : undefined;
+    if (Array.isArray(revised) && revised.length > 0 && revised.every(entry => typeof entry === 'string')) structure = revised;
+    else console.log(chalk.yellow('⚠️ The model did not return a revised structure; edit it directly or try other feedback.'));
+  }
+  await showApprovalAnimation();
+  return structure;
 };
 
 const available_tools = {
   read_directory: {
     fn: readDirectory,
     description: 'Reads the contents of a directory and returns files and subdirectories',
+    parameters: {
+      type: 'object',
+      properties: {
+        dirPath: { type: 'string', description: `Directory to read, defaults to "${ROOT_DIR}"` },
+        recursive: { type: 'boolean', description: 'Also list subfolders (node_modules, .git and build output are skipped)' },
+        maxDepth: { type: 'integer', description: 'How many folder levels to walk when recursive (default 5)' },
+      },
+    },
+  },
+  read_file: {
+    fn: readFile,
+    description: 'Reads the current content of a text file in the workspace',
+    parameters: {
+      type: 'object',
+      properties: {
+        filePath: { type: 'string', description: 'Path of the file, e.g. "todo-app/style.css"' },
+      },
+      required: ['filePath'],
+    },
+  },
+  search_files: {
+    fn: searchProjectFiles,
+    description: 'Searches the text files of the workspace (or one folder) for a string or regular expression, like grep',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Text or regular expression to look for' },
+        dirPath: { type: 'string', description: 'Folder to search, e.g. "todo-app"; defaults to the whole workspace' },
+        regex: { type: 'boolean', description: 'Treat query as a regular expression' },
+        caseSensitive: { type: 'boolean', description: 'Match case exactly (default false)' },
+      },
+      required: ['query'],
+    },
   },
   create_dynamic_file: {
     fn: createDynamicFile,
     description: 'Creates or updates a file with the specified name and content',
+    parameters: {
+      type: 'object',
+      properties: {
+        files: {
+          type: 'array',
+          description: 'Files to create or update',
+          items: {
+            type: 'object',
+            properties: {
+              fileName: { type: 'string', description: 'Path relative to the projects directory, e.g. "todo-app/index.html"' },
+              content: { type: 'string', description: 'Full file content; omit it to have the content generated (files without content are generated in parallel)' },
+              description: { type: 'string', description: 'What the file should contain, used when content is omitted' },
+            },
+            required: ['fileName'],
+          },
+        },
+      },
+      required: ['files'],
+    },
+  },
+  apply_patch: {
+    fn: applyPatches,
+    description: 'Edits existing files with search/replace blocks or unified diffs instead of rewriting them; all files are changed together or not at all',
+    parameters: {
+      type: 'object',
+      properties: {
+        patches: {
+          type: 'array',
+          description: 'One entry per file',
+          items: {
+            type: 'object',
+            properties: {
+              fileName: { type: 'string', description: 'Path relative to the projects directory, e.g. "todo-app/style.css"' },
+              edits: {
+                type: 'array',
+                description: 'Search/replace blocks applied in order; each search text must match the current file exactly once',
+                items: {
+                  type: 'object',
+                  properties: {
+                    search: { type: 'string', description: 'Exact text to find, including indentation; empty to create a new file' },
+                    replace: { type: 'string', description: 'Text to put in its place' },
+                  },
+                  required: ['search', 'replace'],
+                },
+              },
+              diff: { type: 'string', description: 'Unified diff with @@ hunk headers, used instead of edits' },
+            },
+            required: ['fileName'],
+          },
+        },
+      },
+      required: ['patches'],
+    },
   },
   generate_project_structure: {
     fn: generateProjectStructure,
     description: 'Generates the folder and file structure for a project',
+    parameters: {
+      type: 'object',
+      properties: {
+        projectType: { type: 'string', description: 'e.g. "HTML web app" or "Python script"' },
+        description: { type: 'string', description: 'What the project does' },
+      },
+      required: ['projectType', 'description'],
+    },
+  },
+  run_command: {
+    fn: runProjectCommand,
+    description: "Runs a shell command (e.g. the project's start or test command) inside a project directory after the user confirms, and returns its exit code, stdout and stderr",
+    parameters: {
+      type: 'object',
+      properties: {
+        projectDir: { type: 'string', description: 'Project folder to run in, e.g. "calculator"' },
+        command: { type: 'string', description: 'Command to run, e.g. "python calculator.py" or "npm start"' },
+        timeoutSeconds: { type: 'integer', description: `Seconds before the command is stopped (default ${RUN_TIMEOUT_SECONDS})` },
+      },
+      required: ['projectDir', 'command'],
+    },
+  },
+  install_dependencies: {
+    fn: installDependencies,
+    description:
+      "Checks the packages in a project's package.json and/or requirements.txt against the registry, then installs them after the user confirms (npm, or pip into a .venv) and writes the lockfile. Unknown packages or versions and install errors are returned",
+    parameters: {
+      type: 'object',
+      properties: {
+        projectDir: { type: 'string', description: 'Project folder that holds package.json or requirements.txt, e.g. "my-app"' },
+      },
+      required: ['projectDir'],
+    },
   },
   generate_file_content: {
     fn: generateFileContent,
     description: 'Generates content for a file based on its path, project type, and description',
+    parameters: {
+      type: 'object',
+      properties: {
+        filePath: { type: 'string', description: 'Path of the file to generate' },
+        projectType: { type: 'string', description: 'e.g. "HTML web app" or "Python script"' },
+        description: { type: 'string', description: 'What the project does' },
+      },
+      required: ['filePath', 'projectType', 'description'],
+    },
   },
 };
 
-const reqBody = {
-  system_instruction: {
-    parts: [
-      {
-        text: `You are an AI assistant specialized in creating and updating full-fledged projects of any type based on user requests. All projects are stored in the "${ROOT_DIR}" directory. You will analyze the request, determine the project type, generate a minimal folder structure within "${ROOT_DIR}", present it to the user for approval (for new projects), and create or update files with appropriate content. For update requests (e.g., "css file is not working"), identify the issue, locate the relevant file, and fix it without recreating the entire project. Additionally, you can guide users on how to execute their projects and respond to terminal execution-related queries. Always include an "execute.md" file in the project structure to provide detailed execution instructions, dependencies, compatibility, and potential issues.
+// Function declarations sent to the model; every call also carries the step envelope
+const toolSchemas: ToolSchema[] = [
+  reportStepSchema,
+  ...Object.entries(available_tools).map(([name, { description, parameters }]) => ({ name, description, parameters: parameters as ToolSchema['parameters'] })),
+].map(withStepEnvelope);
+
+const systemInstruction = `You are an AI assistant specialized in creating and updating full-fledged projects of any type based on user requests. All projects are stored in the "${ROOT_DIR}" directory. You will analyze the request, determine the project type, generate a minimal folder structure within "${ROOT_DIR}", present it to the user for approval (for new projects), and create or update files with appropriate content. For update requests (e.g., "css file is not working"), identify the issue, locate the relevant file, and fix it without recreating the entire project. Additionally, you can guide users on how to execute their projects and respond to terminal execution-related queries. Always include an "execute.md" file in the project structure to provide detailed execution instructions, dependencies, compatibility, and potential issues.
 
         For a given user input, break it down into exactly 5 steps:
         1. "initialization": Understand the user's request and determine if it's a new project, an update, or an execution query.
         2. "analyze": Identify the project type, name, and requirements, checking existing files in "${ROOT_DIR}". For updates, identify the specific issue and relevant file. For execution queries, identify the project and execution needs. Always include the project name in the content (e.g., "I'll name it 'todo-app'").
         3. "generate_structure": For new projects, generate and propose a minimal folder/file structure within "${ROOT_DIR}", including "README.md" and "execute.md". Skip this step for updates or execution queries.
-        4. "generate_files": Create or update files with appropriate content. For updates, fix the specific issue in the relevant file. Skip this step for execution queries. For "execute.md", populate it with execution instructions, dependencies, compatibility, and potential issues.
+        4. "generate_files": Create or update files with appropriate content. For updates, fix the specific issue in the relevant file. For execution queries, call "run_command" with the project's start command instead of writing files. For "execute.md", populate it with execution instructions, dependencies, compatibility, and potential issues.
         5. "final_result": Confirm successful creation/update or provide execution instructions for execution queries, referencing the "execute.md" file.
 
         Rules:
+        - Each request is preceded by a "Request classification" message (kind: new_project, update, execution or question; projectName; targetFiles). Follow it: use its projectName, and for updates change the files listed in targetFiles. For questions, answer in the "final_result" content without creating or running anything.
+        - Requests that touch a project also get a "Project template" message with the stack, baseline files and install/run/test commands. Base new structures on its baseline files and use its run command for "run_command" unless the project's files say otherwise.
         - Analyze the request to determine the project type (e.g., Python script, web app, API) and functionality.
         - Correctly infer the project type from the request (e.g., "to-do list in HTML" is an HTML web app, not Python).
         - Always extract and include the project name in the "analyze" step content (e.g., "I'll name it 'todo-app'").
-        - All file operations (read/write) occur within "${ROOT_DIR}".
+        - All file operations (read/write) occur within "${ROOT_DIR}". Paths that leave it, follow symbolic links out of it, or touch protected files (e.g. ".env", ".git/") are rejected with a "workspace_violation" error; use a different path inside "${ROOT_DIR}".
         - Check for existing files in "${ROOT_DIR}" during "analyze" to support updates.
         - For new projects, generate a minimal structure (e.g., a simple HTML project should only have index.html, style.css, script.js; a Python script should avoid unnecessary folders like src/ or tests/ unless needed).
         - Always include "README.md" for project details and "execute.md" for execution instructions in the structure.
-        - For update requests (e.g., "css file is not working"), identify the project (e.g., todo-app), locate the relevant file (e.g., style.css), and fix the issue without regenerating the entire project.
-        - For execution queries (e.g., "run the project", "execute the python script"), provide detailed terminal execution instructions without modifying files, referencing the "execute.md" file.
-        - Output JSON: { "step": <step_name>, "content": <step_content>, "function": <function_name> | null, "args": <function_args> | null }.
+        - For update requests (e.g., "css file is not working"), identify the project (e.g., todo-app), locate the relevant file (e.g., style.css), and fix the issue without regenerating the entire project. Use "read_file" and "search_files" to look at the current code before changing it, and keep what already works.
+        - To change existing files, prefer "apply_patch" with small search/replace edits (copy the search text exactly from "read_file") over rewriting whole files with "create_dynamic_file". If a patch fails, nothing is written; read the file again and send corrected patches.
+        - For execution queries (e.g., "run the project", "execute the python script"), run the project with "run_command" (e.g. "python calculator.py", "npm start") in its folder and report the outcome, referencing the "execute.md" file. If the run fails and you are asked to fix it, repeat "generate_files" with the fix and run the command again before "final_result".
+        - After creating or changing a "package.json" or "requirements.txt", call "install_dependencies" for the project (step "generate_files"). If it reports unknown packages or versions or a failed install, fix the manifest with "apply_patch" and call it again.
+        - For every step, call exactly one function: the tool the step needs, or "report_step" when no tool is needed. Always pass "step" (the step name) and "content" (what the step does) along with the tool's own arguments.
+        - If a function call is rejected, read the error, correct the arguments and call again for the same step.
         - Perform one step at a time, waiting for the next input.
         - Ensure files follow best practices (e.g., modular code, error handling).
         - Create directories as needed within "${ROOT_DIR}".
@@ -398,200 +1090,474 @@ const reqBody = {
         - Process the request in exactly 5 steps.
 
         Available Tools:
-        ${Object.entries(available_tools)
-          .map(([toolName, { description }]) => ` - ${toolName}: ${description}`)
+        ${toolSchemas
+          .map(({ name, description }) => ` - ${name}: ${description}`)
           .join('\r\n')}
 
         Example Flows:
         User Query: "Create a to-do list in HTML"
-        1. { "step": "initialization", "content": "I'll create a new HTML to-do list project in '${ROOT_DIR}'.", "function": null, "args": null }
-        2. { "step": "analyze", "content": "The project is an HTML to-do list app. I'll name it 'todo-app' in '${ROOT_DIR}' with HTML, CSS, and JavaScript.", "function": "read_directory", "args": "${ROOT_DIR}" }
-        3. { "step": "generate_structure", "content": "Generating structure for the to-do list app.", "function": "generate_project_structure", "args": { "projectType": "HTML web app", "description": "creates a to-do list with add, edit, and delete functionality" } }
-        4. { "step": "generate_files", "content": "Creating files for the to-do list app.", "function": "create_dynamic_file", "args": [{ "fileName": "todo-app/index.html", "content": "..." }, ...] }
-        5. { "step": "final_result", "content": "Successfully created '${ROOT_DIR}/todo-app' with HTML, CSS, and JavaScript for a to-do list. Execution instructions are in 'execute.md'.", "function": null, "args": null }
+        1. report_step({ "step": "initialization", "content": "I'll create a new HTML to-do list project in '${ROOT_DIR}'." })
+        2. read_directory({ "step": "analyze", "content": "The project is an HTML to-do list app. I'll name it 'todo-app' in '${ROOT_DIR}' with HTML, CSS, and JavaScript.", "dirPath": "${ROOT_DIR}" })
+        3. generate_project_structure({ "step": "generate_structure", "content": "Generating structure for the to-do list app.", "projectType": "HTML web app", "description": "creates a to-do list with add, edit, and delete functionality" })
+        4. create_dynamic_file({ "step": "generate_files", "content": "Creating files for the to-do list app.", "files": [{ "fileName": "todo-app/index.html", "content": "..." }, ...] })
+        5. report_step({ "step": "final_result", "content": "Successfully created '${ROOT_DIR}/todo-app' with HTML, CSS, and JavaScript for a to-do list. Execution instructions are in 'execute.md'." })
 
         User Query: "Write a Python script for a calculator"
-        1. { "step": "initialization", "content": "I'll create a new Python calculator project in '${ROOT_DIR}'.", "function": null, "args": null }
-        2. { "step": "analyze", "content": "The project is a Python calculator script. I'll name it 'calculator' in '${ROOT_DIR}'.", "function": "read_directory", "args": "${ROOT_DIR}" }
-        3. { "step": "generate_structure", "content": "Generating structure for the Python calculator.", "function": "generate_project_structure", "args": { "projectType": "Python script", "description": "implements a calculator with basic arithmetic operations" } }
-        4. { "step": "generate_files", "content": "Creating files for the Python calculator.", "function": "create_dynamic_file", "args": [{ "fileName": "calculator/calculator.py", "content": "..." }, ...] }
-        5. { "step": "final_result", "content": "Successfully created '${ROOT_DIR}/calculator' with a Python script. Execution instructions are in 'execute.md'.", "function": null, "args": null }
+        1. report_step({ "step": "initialization", "content": "I'll create a new Python calculator project in '${ROOT_DIR}'." })
+        2. read_directory({ "step": "analyze", "content": "The project is a Python calculator script. I'll name it 'calculator' in '${ROOT_DIR}'.", "dirPath": "${ROOT_DIR}" })
+        3. generate_project_structure({ "step": "generate_structure", "content": "Generating structure for the Python calculator.", "projectType": "Python script", "description": "implements a calculator with basic arithmetic operations" })
+        4. create_dynamic_file({ "step": "generate_files", "content": "Creating files for the Python calculator.", "files": [{ "fileName": "calculator/calculator.py", "content": "..." }, ...] })
+        5. report_step({ "step": "final_result", "content": "Successfully created '${ROOT_DIR}/calculator' with a Python script. Execution instructions are in 'execute.md'." })
 
         User Query: "run the project"
-        1. { "step": "initialization", "content": "I'll provide instructions to run an existing project in '${ROOT_DIR}'.", "function": null, "args": null }
-        2. { "step": "analyze", "content": "The request is to run a project. Found project 'todo-app' in '${ROOT_DIR}', identified as an HTML web app.", "function": "read_directory", "args": "${ROOT_DIR}" }
-        3. { "step": "generate_structure", "content": "Skipping structure generation for execution request.", "function": null, "args": null }
-        4. { "step": "generate_files", "content": "Skipping file generation for execution request.", "function": null, "args": null }
-        5. { "step": "final_result", "content": "Execution instructions for '${ROOT_DIR}/todo-app' are in 'chaicode/todo-app/execute.md'.", "function": null, "args": null }
-        `,
-      },
-    ],
-  },
-  contents: contents,
-};
+        1. report_step({ "step": "initialization", "content": "I'll provide instructions to run an existing project in '${ROOT_DIR}'." })
+        2. read_directory({ "step": "analyze", "content": "The request is to run a project. Found project 'calculator' in '${ROOT_DIR}', identified as a Python script.", "dirPath": "${ROOT_DIR}" })
+        3. report_step({ "step": "generate_structure", "content": "Skipping structure generation for execution request." })
+        4. run_command({ "step": "generate_files", "content": "Running the calculator script.", "projectDir": "calculator", "command": "python calculator.py" })
+        5. report_step({ "step": "final_result", "content": "Ran '${ROOT_DIR}/calculator' successfully. Execution instructions are in '${ROOT_DIR}/calculator/execute.md'." })
+        `;
 
-async function generateContent(): Promise<string | null> {
+// The system instruction plus the configured prompt addition and the rules of the current project
+const agentInstruction = (): string =>
+  `${systemInstruction}${config.prompts.system ? `\n\n${config.prompts.system}` : ''}${rulesFor(session.projectName)}`;
+
+async function generateContent(signal: AbortSignal, onDelta?: (delta: StreamDelta) => void): Promise<ModelReply | null> {
   try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(reqBody),
-    });
-    if (!response.ok) throw new Error(`HTTP error! Status: ${response.status}`);
-    const data: any = await response.json();
-    return data.candidates?.[0]?.content?.parts?.[0]?.text || null;
+    const reply = await provider.generate({ systemInstruction: agentInstruction(), contents: session.contents, tools: toolSchemas, signal, onDelta });
+    return reply.text || reply.toolCall ? reply : null;
   } catch (error) {
-    console.log(chalk.red('❌ Error generating content:', error));
+    if (!isAbortError(error)) console.log(chalk.red('❌ Error generating content:', error));
     return null;
   }
 }
 
-async function runAgent(userMsg: string) {
+// After a failed run, asks whether the agent may try a fix and builds the next user turn
+const proposeRunFix = async (result: CommandResult, attempt: number): Promise<string> => {
+  if (attempt > RUN_FIX_ATTEMPTS) {
+    console.log(chalk.yellow(`⚠️ Reached the limit of ${RUN_FIX_ATTEMPTS} automatic fix attempts.`));
+    return 'Proceed to next step';
+  }
+  if (!(await confirm(chalk.cyan.bold(`🛠️ The command failed. Send the error output to the agent for an automatic fix (attempt ${attempt}/${RUN_FIX_ATTEMPTS})? (yes/no): `)))) {
+    return 'Proceed to next step';
+  }
+  return `Running "${result.command}" failed (${result.timedOut ? 'timed out' : `exit code ${result.exitCode}`}). Error output:\n${result.stderr || result.stdout}\nFind the cause, fix the affected files with apply_patch or create_dynamic_file (step "generate_files"), then call run_command again to verify the fix.`;
+};
+
+// --template wins, then the classifier's choice, then keyword matching on the project type and request
+const chooseTemplate = (userMsg: string, intent?: Intent): ProjectTemplate => {
+  const template =
+    (cli.template && findTemplate(templateRegistry.templates, cli.template)) ||
+    (intent?.template && findTemplate(templateRegistry.templates, intent.template)) ||
+    pickTemplate(templateRegistry.templates, `${intent?.projectType || ''} ${userMsg}`);
+  console.log(chalk.cyan(`🧩 Template: ${template.name}${template.stack.length ? ` (${template.stack.join(', ')})` : ''}`));
+  return template;
+};
+
+const describeTemplate = (template: ProjectTemplate, projectName: string): string => {
+  const commands = Object.entries(templateCommands(template, projectName, ROOT_DIR))
+    .map(([kind, command]) => `${kind}: "${command}"`)
+    .join(', ');
+  return `Project template "${template.name}": ${template.description}. Stack: ${template.stack.join(', ') || 'any'}. Baseline files: ${templateStructure(template, projectName, ROOT_DIR).join(', ')}. Commands: ${commands || 'none (see README.md)'}. Base the structure on it and use its run command with run_command unless the project says otherwise.`;
+};
+
+// Project folders in the workspace with up to 50 of their files each, for intent classification.
+// Comes from the registry, which is first matched with the folders on disk.
+const listProjects = (): ProjectListing[] => {
+  ensureRootDir();
+  if (syncRegistry(projectRegistry, ROOT_DIR)) persistRegistry();
+  return Object.values(projectRegistry.projects)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(record => ({ name: record.name, files: record.files.slice(0, 50).map(file => file.path) }));
+};
+
+// Updates the registry with the projects a request changed or ran, and makes the request's project the active one
+const recordProjects = (files: string[], intent: Intent | undefined, lastRun?: CommandResult) => {
+  const runTarget = lastRun && resolveWorkspacePath(workspace, lastRun.cwd);
+  const runProject = runTarget && !isViolation(runTarget) ? runTarget.relative.split('/')[0] : undefined;
+  const names = new Set(files.filter(file => file.includes('/')).map(file => file.split('/')[0]));
+  if (runProject) names.add(runProject);
+  if (session.projectName) names.add(session.projectName);
+  names.forEach(name => {
+    if (!fs.existsSync(path.join(ROOT_DIR, name))) return;
+    const isRequestProject = name === session.projectName;
+    recordProject(projectRegistry, ROOT_DIR, name, {
+      type: isRequestProject ? session.projectType : undefined,
+      template: isRequestProject && intent?.kind === 'new_project' ? activeTemplate?.name : undefined,
+      lastRun: name === runProject ? { command: lastRun!.command, exitCode: lastRun!.exitCode, timedOut: lastRun!.timedOut, at: new Date().toISOString() } : undefined,
+    });
+    const source = projectRegistry.projects[name].source;
+    if (source && files.some(file => file.startsWith(`${name}/`))) refreshIndex(name, source);
+  });
+  if (session.projectName && projectRegistry.projects[session.projectName]) projectRegistry.active = session.projectName;
+  persistRegistry();
+};
+
+// Rebuilds the file summary map of an imported repository
+const refreshIndex = (name: string, source: string): RepositoryIndex | undefined => {
+  try {
+    const index = indexRepository(path.join(ROOT_DIR, name), name, source);
+    saveIndex(INDEX_DIR, index);
+    return index;
+  } catch (error) {
+    console.log(chalk.yellow(`⚠️ Could not index ${name}: ${(error as Error).message}`));
+    return undefined;
+  }
+};
+
+// Links an existing repository into the workspace (or refreshes one imported before), indexes it
+// and makes it the active project. Returns the index, or undefined when the import failed.
+const importProject = (source: string, name?: string): RepositoryIndex | undefined => {
+  ensureRootDir();
+  let imported;
+  try {
+    imported = importRepository(ROOT_DIR, source.replace(/^~(?=$|[\\/])/, os.homedir()), name);
+  } catch (error) {
+    console.log(chalk.red(`❌ Could not import ${source}: ${(error as Error).message}`));
+    return undefined;
+  }
+  if (!workspace.linked.includes(imported.realPath)) workspace.linked.push(imported.realPath);
+  listProjects();
+  const index = refreshIndex(imported.name, imported.source);
+  if (!index) return undefined;
+  recordProject(projectRegistry, ROOT_DIR, imported.name, { source: imported.linked ? imported.source : undefined, type: projectRegistry.projects[imported.name]?.type || index.type });
+  projectRegistry.active = imported.name;
+  persistRegistry();
+  session.projectName = imported.name;
+  session.projectType = projectRegistry.projects[imported.name].type;
+  persistSession();
+  const { ignored, binary, overLimit } = index.skipped;
+  console.log(chalk.green(`📥 Imported ${imported.source} as "${imported.name}"${index.type ? ` (${index.type})` : ''}: ${index.files.length} file(s) indexed`));
+  console.log(chalk.gray(`   Skipped ${ignored} ignored, ${binary} binary${overLimit ? ` and ${overLimit} over the index limit` : ''}. Requests now target ${ROOT_DIR}/${imported.name}.`));
+  return index;
+};
+
+// Classification stage: decides what kind of request this is before the step loop starts
+const determineIntent = async (userMsg: string, signal: AbortSignal): Promise<Intent | undefined> => {
+  try {
+    const templates = cli.template ? [] : templateRegistry.templates.map(({ name, description }) => ({ name, description }));
+    const intent = await classifyIntent(provider, userMsg, ROOT_DIR, listProjects(), session.projectName, templates, signal);
+    const targets = intent.targetFiles.length ? ` (${intent.targetFiles.join(', ')})` : '';
+    console.log(chalk.cyan(`🧭 Intent: ${intent.kind}${intent.projectName ? ` → ${intent.projectName}` : ''}${targets}`));
+    return intent;
+  } catch (error) {
+    // A cancelled request is reported by the step loop
+    if (signal.aborted) return undefined;
+    console.log(chalk.yellow(`⚠️ Could not classify the request (${(error as Error).message}); letting the agent decide.`));
+    return undefined;
+  }
+};
+
+async function runAgent(userMsg: string): Promise<RunSummary> {
   console.log(chalk.cyan('========= Processing Request ========='));
   console.log(chalk.white(`📋 Request: ${userMsg}`));
   console.log(chalk.cyan('====================================='));
-  contents.push({ role: 'user', parts: [{ text: userMsg }] });
+  // First message of this request; everything before it may be compacted
+  let requestStart = session.contents.length;
+  session.contents.push({ role: 'user', parts: [{ text: userMsg }] });
+  session.requests.push({ text: userMsg, timestamp: new Date().toISOString() });
+  if (!session.name) session.name = userMsg.slice(0, 40);
+  attempts = [];
+  requestUsage = emptyUsage();
+  const checkpoint = createCheckpoint(CHECKPOINTS_DIR, userMsg, session.id);
+  activeCheckpoint = checkpoint;
+  emitAgentEvent({ type: 'run_started', request: userMsg });
+  const abort = new AbortController();
+  activeAbort = abort;
+
+  const intent = await determineIntent(userMsg, abort.signal);
+  if (intent) emitAgentEvent({ type: 'intent', intent });
+  activeTemplate = chooseTemplate(userMsg, intent);
+  const isUpdateRequest = intent?.kind === 'update';
+  const isExecutionRequest = intent?.kind === 'execution';
+  const updateIssue = isUpdateRequest ? userMsg : undefined;
+  // Requests that do not name a project refer to the active one
+  if (intent && !intent.projectName && intent.kind !== 'new_project' && session.projectName) intent.projectName = session.projectName;
+  if (intent?.projectName) session.projectName = intent.projectName;
+  if (intent?.projectType) session.projectType = intent.projectType;
+  // Update targets as paths relative to the workspace root, e.g. "todo-app/style.css"
+  const updateFiles = isUpdateRequest && intent?.projectName ? intent.targetFiles.map(file => `${intent.projectName}/${file}`) : [];
+  // Files already written (or offered for review) during this request
+  const writtenFiles = new Set<string>();
+  if (intent) {
+    session.contents.push({ role: 'user', parts: [{ text: `Request classification: ${JSON.stringify(intent)}` }] });
+  }
+  if (intent?.kind !== 'question') {
+    session.contents.push({ role: 'user', parts: [{ text: describeTemplate(activeTemplate, session.projectName || 'my-project') }] });
+  }
+  const projectRecord = intent?.kind !== 'new_project' && session.projectName ? projectRegistry.projects[session.projectName] : undefined;
+  if (projectRecord) {
+    if (!projectRecord.type && intent?.projectType) session.projectType = intent.projectType;
+    else if (projectRecord.type && !intent?.projectType) session.projectType = projectRecord.type;
+    session.contents.push({ role: 'user', parts: [{ text: describeProject(projectRecord, ROOT_DIR) }] });
+    const index = projectRecord.source && (loadIndex(INDEX_DIR, projectRecord.name) || refreshIndex(projectRecord.name, projectRecord.source));
+    if (index) session.contents.push({ role: 'user', parts: [{ text: describeIndex(index) }] });
+  }
+  let repairs = 0;
+  const reviewState = { acceptAll: false };
+  let fixAttempts = 0;
+  let verifyAttempts = 0;
+  let verification: VerificationReport[] | undefined;
+  let lastRun: CommandResult | undefined;
+  const steps: StepSummary[] = [];
+  let status: RunSummary['status'] = 'failed';
+  const projectTypeFor = (args: any): string => args?.projectType || session.projectType || activeTemplate?.description || 'HTML web app';
 
-  let isUpdateRequest = false;
-  let isExecutionRequest = false;
-  let updateIssue: string | undefined;
-  let updateFile: string | undefined;
+  // Sends the error back as a corrective turn; false once the repair budget is spent
+  const requestRepair = (error: string): boolean => {
+    repairs++;
+    recordAttempt({ kind: 'step', attempt: repairs, error, timestamp: new Date().toISOString() });
+    if (repairs > recovery.repairBudget) {
+      console.log(chalk.red(`❌ Gave up after ${recovery.repairBudget} repair attempts.`));
+      return false;
+    }
+    session.contents.push({ role: 'user', parts: [{ text: repairPrompt(error) }] });
+    return true;
+  };
 
   while (true) {
-    const response = await generateContent();
+    if (!abort.signal.aborted) requestStart = await compactContext(requestStart);
+    const preview = STREAM_OUTPUT ? createStepPreview() : undefined;
+    const response = abort.signal.aborted ? null : await generateContent(abort.signal, preview?.onDelta);
+    // Step and content already printed while the reply streamed in
+    const shown = preview?.finish() || {};
+    if (abort.signal.aborted) {
+      console.log(chalk.yellow('⛔ Request cancelled.'));
+      status = 'cancelled';
+      break;
+    }
     if (!response) {
       console.log(chalk.red('❌ Failed to get a response from the API'));
       break;
     }
+    const used = requestUsage.inputTokens + requestUsage.outputTokens;
+    if (contextOptions.requestBudget > 0 && used > contextOptions.requestBudget) {
+      console.log(chalk.red(`❌ Stopped: this request used ${formatTokens(used)} tokens, more than REQUEST_TOKEN_BUDGET (${formatTokens(contextOptions.requestBudget)}).`));
+      break;
+    }
 
-    const cleaned = response
-      .replace(/^```json\s*|\s*```$/gm, '')
-      .replace(/^```.*$/gm, '')
-      .replace(/\n\s*/g, '')
-      .trim();
+    const { step, error } = parseStepReply(response, toolSchemas);
+    if (!step) {
+      session.contents.push({ role: 'model', parts: [{ text: response.toolCall ? JSON.stringify(response.toolCall) : response.text }] });
+      if (!requestRepair(error!)) break;
+      continue;
+    }
+
+    const dataObj: StepResponse = step;
 
-    let dataObj: StepResponse;
+    // User turn sent after this step; replaced when the model has something to revise
+    let nextPrompt = 'Proceed to next step';
+    // A failed or rejected patch is revised by the model instead of falling back to regenerating whole files
+    let patchPending = false;
 
     try {
-      dataObj = JSON.parse(cleaned);
-      console.log(chalk.cyan(`📍 Step: ${dataObj.step}`));
-      console.log(chalk.white(`📝 ${dataObj.content}`));
-
-      contents.push({ role: 'model', parts: [{ text: JSON.stringify(dataObj) }] });
-
-      if (dataObj.step === 'initialization') {
-        const lowerMsg = userMsg.toLowerCase();
-        if (lowerMsg.includes('not working') || lowerMsg.includes('fix') || lowerMsg.includes('update')) {
-          isUpdateRequest = true;
-          updateIssue = userMsg;
-        } else if (lowerMsg.includes('run') || lowerMsg.includes('execute') || lowerMsg.includes('start')) {
-          isExecutionRequest = true;
-        }
-      }
+      if (shown.step !== dataObj.step) console.log(chalk.cyan(`📍 Step: ${dataObj.step}`));
+      if (shown.step !== dataObj.step || shown.content !== dataObj.content) console.log(chalk.white(`📝 ${dataObj.content}`));
+      steps.push({ step: dataObj.step, content: dataObj.content, function: dataObj.function });
+      emitAgentEvent({ type: 'step', step: dataObj.step, content: dataObj.content, function: dataObj.function, args: dataObj.args });
 
-      if (dataObj.step === 'analyze') {
-        const typeMatch = dataObj.content.match(/identified as an? ([\w\s]+)\./);
-        const nameMatch = dataObj.content.match(/I'll name it '([^']+)'/) || dataObj.content.match(/Found project '([^']+)'/);
-        if (typeMatch) projectType = typeMatch[1];
-        if (nameMatch) projectName = nameMatch[1];
-
-        if (isUpdateRequest) {
-          const match = dataObj.content.match(/Found project '([^']+)' in '.*' with a ([^']+)\.(\w+)/);
-          if (match) {
-            const projectName = match[1];
-            const fileName = match[2];
-            const fileExt = match[3];
-            updateFile = `${projectName}/${fileName}.${fileExt}`;
-          }
-        }
-      }
+      session.contents.push({ role: 'model', parts: [{ text: JSON.stringify(dataObj) }] });
 
       if (dataObj.function && available_tools[dataObj.function as keyof typeof available_tools]) {
         let functionResult;
+        const toolStarted = Date.now();
         const toolFn: any = available_tools[dataObj.function as keyof typeof available_tools].fn;
 
         if (dataObj.function === 'generate_project_structure') {
-          await showSpinner('Generating project structure...', 1500);
-          functionResult = await toolFn(dataObj.args.projectType, dataObj.args.description);
+          const [result] = await runGenerationJobs(
+            [{ label: 'Project structure', run: async (signal, onText) => ({ value: await generateProjectStructure(dataObj.args.projectType, dataObj.args.description, signal, onText) }) }],
+            { title: 'Generating project structure', concurrency: 1, signal: abort.signal }
+          );
+          functionResult = result.value ?? '{}';
           const parsedResult = JSON.parse(functionResult);
           proposedStructure = parsedResult.structure || [];
           functionResult = JSON.stringify(parsedResult);
         } else if (dataObj.function === 'generate_file_content') {
-          await showSpinner(`Generating content for ${dataObj.args.filePath}...`, 1000);
-          functionResult = await toolFn(
-            dataObj.args.filePath,
-            dataObj.args.projectType,
-            dataObj.args.description,
-            isUpdateRequest,
-            updateIssue
+          const [result] = await runGenerationJobs(
+            [{ label: normalizePath(dataObj.args.filePath), run: (signal, onText) => generateFileContent(dataObj.args.filePath, dataObj.args.projectType, dataObj.args.description, isUpdateRequest, updateIssue, signal, onText) }],
+            { title: 'Generating file content', concurrency: 1, signal: abort.signal }
           );
+          functionResult = result.status === 'done' ? result.value : `Error generating content for ${normalizePath(dataObj.args.filePath)}: ${result.error || result.status}`;
         } else if (dataObj.function === 'create_dynamic_file') {
-          if (Array.isArray(dataObj.args)) {
-            functionResult = [];
-            for (const arg of dataObj.args) {
-              await showSpinner(`Processing ${arg.fileName}...`, 800);
-              functionResult.push(toolFn(arg));
+          // Files sent without content are generated first, all at once; nothing is written if the user cancels meanwhile
+          const files: { fileName: string; content?: string; description?: string }[] = dataObj.args.files;
+          const missing = files.filter(file => typeof file.content !== 'string');
+          const generated = await runGenerationJobs(
+            missing.map(file => ({
+              label: normalizePath(file.fileName),
+              run: (signal: AbortSignal, onText: (text: string, reset?: boolean) => void) =>
+                generateFileContent(file.fileName, projectTypeFor(dataObj.args), file.description || userMsg, isUpdateRequest, updateIssue, signal, onText),
+            })),
+            { title: 'Generating files', concurrency: GENERATION_CONCURRENCY, signal: abort.signal }
+          );
+          functionResult = [];
+          for (const file of abort.signal.aborted ? [] : files) {
+            const job = generated[missing.indexOf(file)];
+            if (job && job.status !== 'done') {
+              functionResult.push(`Error generating content for ${normalizePath(file.fileName)}: ${job.error || job.status}`);
+              continue;
             }
-            functionResult = functionResult.join('\n');
-          } else {
-            await showSpinner(`Processing ${dataObj.args.fileName}...`, 800);
-            functionResult = toolFn(dataObj.args);
+            const result = await writeFileWithReview({ fileName: file.fileName, content: job ? job.value! : file.content! }, reviewState);
+            if (typeof result === 'string' && !result.startsWith('Error')) writtenFiles.add(normalizePath(file.fileName));
+            functionResult.push(result);
+          }
+          if (functionResult.some((result: any) => result?.error === 'rejected_by_user')) nextPrompt = 'The user rejected some file changes (see the errors above). Revise those files based on the feedback and call create_dynamic_file again, or proceed to the next step if no change is needed.';
+        } else if (dataObj.function === 'apply_patch') {
+          functionResult = await toolFn(dataObj.args, reviewState);
+          if (Array.isArray(functionResult) && !String(functionResult[0]).startsWith('Error')) {
+            dataObj.args.patches.forEach((patch: FilePatch) => writtenFiles.add(normalizePath(patch.fileName)));
+          }
+          patchPending = functionResult?.error === 'patch_failed' || functionResult?.error === 'rejected_by_user';
+          if (functionResult?.error === 'rejected_by_user') nextPrompt = 'The user rejected the patch (see the error above). Revise it based on the feedback and call apply_patch again, or proceed to the next step if no change is needed.';
+          if (functionResult?.error === 'patch_failed') nextPrompt = 'The patch did not apply (see the failures above). Read the affected files again and call apply_patch with corrected edits.';
+        } else if (dataObj.function === 'run_command') {
+          functionResult = await runProjectCommand(dataObj.args);
+          if (typeof functionResult === 'object' && 'exitCode' in functionResult) {
+            lastRun = functionResult;
+            if (!commandSucceeded(functionResult)) nextPrompt = await proposeRunFix(functionResult, ++fixAttempts);
           }
+        } else if (dataObj.function === 'install_dependencies') {
+          functionResult = await installDependencies(dataObj.args);
+          if (!Array.isArray(functionResult) && typeof functionResult === 'object' && ['dependency_resolution_failed', 'install_failed'].includes(functionResult.error)) {
+            // The manifest fix comes as a patch, so the update targets are not regenerated meanwhile
+            patchPending = true;
+            nextPrompt = 'Installing the dependencies failed (see the error above). Fix package.json or requirements.txt with apply_patch (step "generate_files"), then call install_dependencies again.';
+          }
+        } else if (dataObj.function === 'read_directory') {
+          functionResult = toolFn(dataObj.args.dirPath, dataObj.args.recursive, dataObj.args.maxDepth);
+        } else if (dataObj.function === 'read_file') {
+          functionResult = toolFn(dataObj.args.filePath);
         } else {
           functionResult = toolFn(dataObj.args);
         }
 
-        contents.push({ role: 'user', parts: [{ text: JSON.stringify(functionResult) }] });
+        recordToolCall(dataObj.step, dataObj.function, dataObj.args, functionResult, Date.now() - toolStarted);
+        session.contents.push({ role: 'user', parts: [{ text: JSON.stringify(functionResult) }] });
       }
 
       if (dataObj.step === 'generate_structure' && proposedStructure.length > 0 && !isUpdateRequest && !isExecutionRequest) {
-        const approved = await presentStructure(proposedStructure);
+        const approved = await presentStructure(proposedStructure, {
+          projectType: projectTypeFor(dataObj.args),
+          description: dataObj.args?.description || userMsg,
+          signal: abort.signal,
+        });
         if (!approved) {
           console.log(chalk.red('❌ Structure not approved. Aborting project creation.'));
+          status = 'aborted';
           break;
         }
+        approvedStructure = approved.map(normalizePath);
+        if (approved.join('\n') !== proposedStructure.join('\n')) {
+          nextPrompt = `The user changed the proposed structure and approved this one: ${JSON.stringify({ structure: approved })}. Create exactly these files; do not create files outside it.`;
+        }
       }
 
-      if (dataObj.step === 'generate_files' && isUpdateRequest && updateFile) {
-        dataObj.function = 'create_dynamic_file';
-        dataObj.args = [{
-          fileName: updateFile,
-          content: await generateFileContent(updateFile, dataObj.args?.projectType || 'HTML web app', dataObj.args?.description || userMsg, true, updateIssue),
-        }];
-        const toolFn: any = available_tools['create_dynamic_file'].fn;
-        await showSpinner(`Updating ${updateFile}...`, 800);
-        const functionResult = toolFn(dataObj.args);
-        contents.push({ role: 'user', parts: [{ text: JSON.stringify(functionResult) }] });
+      // Update targets the model did not rewrite itself are regenerated together
+      const pendingUpdates = updateFiles.filter(file => !writtenFiles.has(normalizePath(file)));
+      if (dataObj.step === 'generate_files' && pendingUpdates.length > 0 && !patchPending && !abort.signal.aborted) {
+        const updatesStarted = Date.now();
+        const generated = await runGenerationJobs(
+          pendingUpdates.map(updateFile => ({
+            label: normalizePath(updateFile),
+            run: (signal: AbortSignal, onText: (text: string, reset?: boolean) => void) =>
+              generateFileContent(updateFile, projectTypeFor(dataObj.args), dataObj.args?.description || userMsg, true, updateIssue, signal, onText),
+          })),
+          { title: 'Updating files', concurrency: GENERATION_CONCURRENCY, signal: abort.signal }
+        );
+        const files = generated.filter(job => job.status === 'done').map(job => ({ fileName: pendingUpdates[generated.indexOf(job)], content: job.value! }));
+        const functionResult: unknown[] = generated
+          .filter(job => job.status === 'failed')
+          .map(job => `Error generating content for ${job.label}: ${job.error}`);
+        for (const file of abort.signal.aborted ? [] : files) {
+          const result = await writeFileWithReview(file, reviewState);
+          if (typeof result === 'string' && !result.startsWith('Error')) writtenFiles.add(normalizePath(file.fileName));
+          functionResult.push(result);
+        }
+        if (functionResult.some((result: any) => result?.error === 'rejected_by_user')) nextPrompt = 'The user rejected some file changes (see the errors above). Revise those files based on the feedback and call create_dynamic_file again, or proceed to the next step if no change is needed.';
+        recordToolCall(dataObj.step, 'create_dynamic_file', { files }, functionResult, Date.now() - updatesStarted);
+        session.contents.push({ role: 'user', parts: [{ text: JSON.stringify(functionResult) }] });
       }
 
       if (dataObj.step === 'final_result') {
+        if (VERIFY_ENABLED && writtenFiles.size > 0) verification = await verifyWrittenFiles(writtenFiles);
+        if (abort.signal.aborted) continue;
         console.log(chalk.cyan('========= Project Summary ========='));
         console.log(chalk.white(`📝 ${dataObj.content}`));
+        if (lastRun) {
+          const status = lastRun.timedOut ? 'was stopped by the timeout' : `exited with code ${lastRun.exitCode}`;
+          console.log(chalk.white(`▶️ Last run: "${lastRun.command}" in ${lastRun.cwd} ${status}`));
+        }
+        const preview = session.projectName ? previews.get(session.projectName) : undefined;
+        if (preview) console.log(chalk.white(`👀 Preview: ${preview.url}`));
+        else if (session.projectName && fs.existsSync(path.join(ROOT_DIR, session.projectName, 'index.html'))) {
+          console.log(chalk.white(`👀 Type "preview ${session.projectName}" to watch the page update live as you request changes.`));
+        }
+        verification?.forEach(showVerification);
+        const failed = verification?.find(report => !report.passed);
+        if (failed && verifyAttempts >= VERIFY_FIX_ATTEMPTS) {
+          console.log(chalk.yellow(`⚠️ Verification still fails after ${VERIFY_FIX_ATTEMPTS} repair attempt(s).`));
+        } else if (failed && (await confirm(chalk.cyan.bold(`🛠️ Send the failed checks to the agent for a repair attempt (${verifyAttempts + 1}/${VERIFY_FIX_ATTEMPTS})? (yes/no): `)))) {
+          verifyAttempts++;
+          session.contents.push({ role: 'user', parts: [{ text: verification!.filter(report => !report.passed).map(verificationPrompt).join('\n\n') }] });
+          continue;
+        }
         if (isExecutionRequest) {
           console.log(chalk.cyan('========= Execution Instructions ========='));
           console.log(chalk.white(`📜 Detailed instructions are available in:`));
-          console.log(chalk.white(`   ${ROOT_DIR}/${projectName || 'unknown'}/execute.md`));
+          console.log(chalk.white(`   ${ROOT_DIR}/${session.projectName || 'unknown'}/execute.md`));
           console.log(chalk.white(`   This includes steps to run the project, dependencies, compatibility, and troubleshooting.`));
           console.log(chalk.cyan('==========================================='));
-        } else {
+        } else if (intent?.kind !== 'question' && !failed) {
           showSuccessAnimation();
         }
         proposedStructure = [];
-        projectType = undefined;
-        projectName = undefined;
-        isUpdateRequest = false;
-        isExecutionRequest = false;
-        updateIssue = undefined;
-        updateFile = undefined;
+        status = 'completed';
         break;
       }
 
-      contents.push({ role: 'user', parts: [{ text: 'Proceed to next step' }] });
+      session.contents.push({ role: 'user', parts: [{ text: nextPrompt }] });
     } catch (error) {
+      if (abort.signal.aborted) continue;
       console.log(chalk.red('❌ Error processing response:', error));
-      break;
+      if (!requestRepair(`Processing the "${dataObj.step}" step failed: ${(error as Error).message}.`)) break;
+    } finally {
+      persistSession();
     }
   }
+  activeAbort = null;
+  persistSession();
+  if (checkpoint.files.length > 0) {
+    console.log(chalk.gray(`💾 Checkpoint ${checkpoint.id} saved (${checkpoint.files.length} file(s)). Type "undo" to revert this request.`));
+  }
+  activeCheckpoint = null;
+  proposedStructure = [];
+  approvedStructure = null;
+  recordProjects(checkpoint.files.map(file => file.path), intent, lastRun);
+
+  if (attempts.length > 0) {
+    console.log(chalk.yellow(`📋 ${attempts.length} failed attempt(s) recorded for this request.`));
+  }
+  const estimated = requestUsage.estimated ? ' (partly estimated)' : '';
+  console.log(
+    chalk.gray(
+      `📊 Tokens: ${formatTokens(requestUsage.inputTokens)} in, ${formatTokens(requestUsage.outputTokens)} out over ${requestUsage.calls} model call(s)${estimated}. Context: ~${formatTokens(contextTokens(session.contents))} of ${formatTokens(contextOptions.contextBudget)} tokens.`
+    )
+  );
+
+  const summary: RunSummary = {
+    request: userMsg,
+    status,
+    intent,
+    template: activeTemplate?.name,
+    steps,
+    filesChanged: checkpoint.files.map(file => `${ROOT_DIR}/${file.path}`),
+    checkpoint: checkpoint.files.length > 0 ? checkpoint.id : undefined,
+    lastRun: lastRun && { command: lastRun.command, cwd: lastRun.cwd, exitCode: lastRun.exitCode, timedOut: lastRun.timedOut, durationMs: lastRun.durationMs },
+    usage: { ...requestUsage },
+    verification,
+    preview: session.projectName ? previews.get(session.projectName)?.url : undefined,
+  };
+  emitAgentEvent({ type: 'run_finished', summary });
+  return summary;
 }
 
 const rl = readline.createInterface({
@@ -613,9 +1579,316 @@ async function processInput(input: string): Promise<void> {
     showHelp();
     return;
   }
+  if (inputLower === 'sessions') {
+    showSessions();
+    return;
+  }
+  if (inputLower === 'history') {
+    showHistory();
+    return;
+  }
+  if (/^log( \d+)?$/.test(inputLower)) {
+    showLog(parseInt(inputLower.slice(4), 10) || 30);
+    return;
+  }
+  // Only "replay <single-word>" is a command, so requests that start with "replay" reach the agent
+  if (/^replay \S+$/.test(inputLower)) {
+    replaySession(input.slice(7).trim());
+    return;
+  }
+  if (inputLower === 'compact') {
+    const before = session.contents;
+    await compactContext(session.contents.length, true);
+    if (session.contents === before) console.log(chalk.white('Nothing to compact.'));
+    persistSession();
+    return;
+  }
+  if (inputLower === 'clear') {
+    session.contents = [];
+    session.requests = [];
+    session.toolCalls = [];
+    session.filesTouched = [];
+    session.usage = { inputTokens: 0, outputTokens: 0 };
+    persistSession();
+    console.log(chalk.green(`🧹 Cleared the history of session ${session.id}`));
+    return;
+  }
+  if (inputLower === 'review on' || inputLower === 'review off') {
+    reviewMode = inputLower === 'review on';
+    console.log(chalk.green(`🔍 Review mode ${reviewMode ? 'on: file changes need your approval' : 'off: file changes are written directly'}`));
+    return;
+  }
+  if (inputLower === 'templates') {
+    showTemplates();
+    return;
+  }
+  if (inputLower === 'config') {
+    showConfig();
+    return;
+  }
+  if (inputLower === 'checkpoints') {
+    showCheckpoints();
+    return;
+  }
+  if (inputLower === 'undo') {
+    const latest = listCheckpoints(CHECKPOINTS_DIR)[0];
+    if (!latest) {
+      console.log(chalk.yellow('Nothing to undo.'));
+      return;
+    }
+    restoreFromCheckpoint(latest.id);
+    return;
+  }
+  if (/^restore \S+$/.test(inputLower)) {
+    restoreFromCheckpoint(input.slice(8).trim());
+    return;
+  }
+  if (inputLower === 'projects') {
+    showProjects();
+    return;
+  }
+  // "import <path> [name]" when the argument looks like a folder, so requests like "import lodash into the app" reach the agent
+  const importMatch = /^import\s+(\S+)(?:\s+(\S+))?$/i.exec(input);
+  if (importMatch && (/[\\/~.]/.test(importMatch[1]) || fs.existsSync(importMatch[1]))) {
+    importProject(importMatch[1], importMatch[2]);
+    return;
+  }
+  if (/^install(\s+\S+)?$/.test(inputLower)) {
+    const project = input.slice(7).trim() || session.projectName || projectRegistry.active;
+    if (!project) console.log(chalk.yellow('No active project. Type "install <project>" or "use <project>" first.'));
+    else reportInstall(await installDependencies({ projectDir: project }));
+    return;
+  }
+  if (/^preview stop(\s+\S+)?$/.test(inputLower)) {
+    await stopPreviews(input.slice(12).trim() || undefined);
+    return;
+  }
+  if (/^preview(\s+\S+)?$/.test(inputLower)) {
+    const project = input.slice(7).trim() || session.projectName || projectRegistry.active;
+    if (!project) console.log(chalk.yellow('No active project. Type "preview <project>" or "use <project>" first.'));
+    else if (await previewProject(project)) console.log(chalk.white('   Pages reload whenever the agent changes the project. Type "preview stop" to stop.'));
+    return;
+  }
+  if (/^use \S+$/.test(inputLower)) {
+    useProject(input.slice(4).trim());
+    return;
+  }
+  if (inputLower === 'new') {
+    session = startSession();
+    console.log(chalk.green(`🆕 Started session ${session.id}`));
+    return;
+  }
+  // "resume <id|name>"; session names are usually the first words of a request, so they may contain spaces.
+  // Text that names no session, like "resume builder in HTML", goes to the agent as a request.
+  const resume = /^resume\s+(.+)$/i.exec(input);
+  if (resume) {
+    const loaded = loadSession(SESSIONS_DIR, resume[1].trim());
+    if (loaded) {
+      session = loaded;
+      console.log(chalk.green(`🔁 Resumed session ${session.id} (${session.name || 'unnamed'})`));
+      console.log(chalk.white(`   ${session.requests.length} request(s), project: ${session.projectName || 'none'}`));
+      return;
+    }
+    if (!/\s/.test(resume[1].trim())) {
+      console.log(chalk.red(`❌ No session matches "${resume[1].trim()}". Type "sessions" to list them.`));
+      return;
+    }
+  }
   await runAgent(input);
 }
 
+// Serves a project folder on a local port with live reload; a preview already running for it is reused.
+// watch also reloads on changes made outside this process.
+async function previewProject(name: string, watch: boolean = false): Promise<Preview | undefined> {
+  listProjects();
+  const target = resolveWorkspacePath(workspace, name);
+  const record = isViolation(target) ? undefined : projectRegistry.projects[target.relative];
+  if (!record) {
+    console.log(chalk.red(`❌ No project "${name}" in ${ROOT_DIR}. Type "projects" to list them.`));
+    return undefined;
+  }
+  const running = previews.get(record.name);
+  if (running) {
+    console.log(chalk.white(`👀 ${ROOT_DIR}/${record.name} is already previewed at ${running.url}`));
+    return running;
+  }
+  try {
+    const preview = await startPreview(record.name, {
+      port: PREVIEW_PORT,
+      host: PREVIEW_HOST,
+      resolve: urlPath => {
+        const file = resolveWorkspacePath(workspace, `${record.name}/${urlPath.replace(/^\/+/, '')}`);
+        return isViolation(file) ? undefined : file.absolute;
+      },
+      watchDir: watch ? path.join(ROOT_DIR, record.name) : undefined,
+    });
+    previews.set(record.name, preview);
+    console.log(chalk.green(`👀 Previewing ${ROOT_DIR}/${record.name} at ${preview.url}`));
+    if (!fs.existsSync(path.join(ROOT_DIR, record.name, 'index.html'))) console.log(chalk.yellow(`⚠️ ${record.name} has no index.html; open the page you want from the URL.`));
+    return preview;
+  } catch (error) {
+    console.log(chalk.red(`❌ Could not start the preview: ${(error as Error).message}`));
+    return undefined;
+  }
+}
+
+async function stopPreviews(name?: string): Promise<void> {
+  const stopping = [...previews.values()].filter(preview => !name || preview.project === name);
+  if (stopping.length === 0) {
+    console.log(chalk.yellow(name ? `No preview of "${name}" is running.` : 'No preview is running.'));
+    return;
+  }
+  for (const preview of stopping) {
+    await preview.stop();
+    previews.delete(preview.project);
+    console.log(chalk.white(`⏹️ Stopped the preview of ${ROOT_DIR}/${preview.project}`));
+  }
+}
+
+function showProjects(): void {
+  listProjects();
+  const records = Object.values(projectRegistry.projects).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  console.log(chalk.cyan(`========= Projects in ${ROOT_DIR} =========`));
+  if (records.length === 0) console.log(chalk.white('  No projects yet.'));
+  records.forEach(record => {
+    const marker = record.name === projectRegistry.active ? chalk.green('▶') : ' ';
+    const details = [record.type, record.template && `template ${record.template}`, `${record.files.length} file(s)`, `updated ${record.updatedAt}`].filter(Boolean).join(', ');
+    console.log(chalk.white(`${marker} 📂 ${record.name}  (${details})`));
+    if (record.lastRun) {
+      const status = record.lastRun.timedOut ? 'timed out' : `exit code ${record.lastRun.exitCode}`;
+      console.log(chalk.gray(`      last run: ${record.lastRun.command} (${status}, ${record.lastRun.at})`));
+    }
+    record.dependencies?.forEach(install => {
+      const status = install.status === 'installed' ? `installed${install.lockfile ? `, ${install.lockfile}` : ''}` : 'install failed';
+      console.log(chalk.gray(`      dependencies: ${install.file} (${install.packages.length} package(s), ${status}${install.offline ? ', offline' : ''}, ${install.at})`));
+    });
+  });
+  console.log(chalk.cyan('==========================================='));
+}
+
+// Makes a project the default target of requests in this and later sessions
+function useProject(name: string): void {
+  listProjects();
+  const target = resolveWorkspacePath(workspace, name);
+  const record = isViolation(target) ? undefined : projectRegistry.projects[target.relative];
+  if (!record) {
+    console.log(chalk.red(`❌ No project "${name}" in ${ROOT_DIR}. Type "projects" to list them.`));
+    return;
+  }
+  projectRegistry.active = record.name;
+  session.projectName = record.name;
+  session.projectType = record.type;
+  persistRegistry();
+  persistSession();
+  console.log(chalk.green(`📌 Active project: ${record.name}${record.type ? ` (${record.type})` : ''}, ${record.files.length} file(s)`));
+}
+
+function showTemplates(): void {
+  console.log(chalk.cyan('========= Project Templates ========='));
+  templateRegistry.templates.forEach(template => {
+    const source = template.source === 'built-in' ? '' : chalk.gray(` (${template.source})`);
+    console.log(chalk.white(`  ${template.name}: ${template.description}${source}`));
+    if (template.stack.length) console.log(chalk.gray(`      stack: ${template.stack.join(', ')}`));
+    if (template.commands.run) console.log(chalk.gray(`      run: ${template.commands.run}`));
+  });
+  console.log(chalk.cyan('====================================='));
+}
+
+function showConfig(): void {
+  console.log(chalk.cyan('========= Configuration ========='));
+  const keys: (keyof AgentConfig)[] = ['provider', 'model', 'baseUrl', 'temperature', 'root', 'approval', 'animationMs', 'prompts', 'rules', 'dependencies', 'serverOrigins'];
+  keys.forEach(key => {
+    const value = config[key];
+    const shown = value === undefined ? chalk.gray('(provider default)') : JSON.stringify(value);
+    console.log(chalk.white(`  ${key}: ${shown}`) + chalk.gray(`  [${configSources[key] || 'default'}]`));
+  });
+  const rulesFile = session.projectName && path.join(ROOT_DIR, session.projectName, RULES_FILE);
+  if (rulesFile) console.log(chalk.white(`  project rules: ${fs.existsSync(rulesFile) ? rulesFile : chalk.gray(`none (create ${rulesFile})`)}`));
+  console.log(chalk.cyan('================================='));
+}
+
+function showCheckpoints(): void {
+  const checkpoints = listCheckpoints(CHECKPOINTS_DIR);
+  console.log(chalk.cyan('========= Checkpoints ========='));
+  if (checkpoints.length === 0) console.log(chalk.white('  No checkpoints yet.'));
+  checkpoints.forEach(checkpoint => {
+    console.log(chalk.white(`  ${checkpoint.id}  [${checkpoint.createdAt}] ${checkpoint.request}`));
+    checkpoint.files.forEach(file => console.log(chalk.gray(`      ${file.existed ? '🔄' : '✅'} ${file.path}`)));
+  });
+  console.log(chalk.cyan('==============================='));
+}
+
+function restoreFromCheckpoint(id: string): void {
+  try {
+    const result = restoreCheckpoint(CHECKPOINTS_DIR, path.resolve(ROOT_DIR), id);
+    if (!result) {
+      console.log(chalk.red(`❌ No checkpoint "${id}". Type "checkpoints" to list them.`));
+      return;
+    }
+    result.undone.forEach(checkpoint => console.log(chalk.blue(`⏪ Reverted checkpoint ${checkpoint.id}: ${checkpoint.request}`)));
+    [...new Set(result.restored)].forEach(file => console.log(chalk.white(`   🔄 ${ROOT_DIR}/${file} restored`)));
+    [...new Set(result.deleted)].forEach(file => console.log(chalk.white(`   🗑️ ${ROOT_DIR}/${file} removed`)));
+    previews.forEach(preview => preview.reload());
+  } catch (error) {
+    console.log(chalk.red(`❌ Error restoring checkpoint ${id}: ${(error as Error).message}`));
+  }
+}
+
+function showSessions(): void {
+  const summaries = listSessions(SESSIONS_DIR);
+  console.log(chalk.cyan('========= Saved Sessions ========='));
+  if (summaries.length === 0) console.log(chalk.white('  No saved sessions yet.'));
+  summaries.forEach(summary => {
+    const marker = summary.id === session.id ? chalk.green('▶') : ' ';
+    console.log(chalk.white(`${marker} ${summary.id}  ${summary.name || 'unnamed'}  (${summary.requests} request(s), project: ${summary.projectName || 'none'}, updated ${summary.updatedAt})`));
+  });
+  console.log(chalk.cyan('=================================='));
+}
+
+// Latest entries of the current session's run log
+function showLog(count: number): void {
+  const entries = readLog(LOGS_DIR, session.id) || [];
+  console.log(chalk.cyan(`========= Run Log: ${session.name || session.id} =========`));
+  if (entries.length === 0) console.log(chalk.white('  Nothing logged in this session yet.'));
+  if (entries.length > count) console.log(chalk.gray(`  ... ${entries.length - count} earlier entries (type "replay ${session.id}" to see all)`));
+  entries.slice(-count).forEach(entry => console.log(formatEntry(entry)));
+  console.log(chalk.gray(`  ${path.join(LOGS_DIR, `${session.id}.jsonl`)}`));
+  console.log(chalk.cyan('========================================'));
+}
+
+// Re-renders every run of a saved session from its log; the log outlives a deleted session file
+function replaySession(idOrName: string): boolean {
+  const id = loadSession(SESSIONS_DIR, idOrName)?.id || idOrName;
+  const entries = readLog(LOGS_DIR, id);
+  if (!entries) {
+    console.log(chalk.red(`❌ No run log for session "${idOrName}". Type "sessions" to list them.`));
+    return false;
+  }
+  console.log(chalk.cyan(`========= Replay of session ${id} (${entries.length} entries) =========`));
+  entries.forEach(entry => console.log(formatEntry(entry, true)));
+  console.log(chalk.cyan('========================================'));
+  return true;
+}
+
+function showHistory(): void {
+  console.log(chalk.cyan(`========= History: ${session.name || session.id} =========`));
+  if (session.requests.length === 0) console.log(chalk.white('  Nothing in this session yet.'));
+  session.requests.forEach((request, index) => {
+    console.log(chalk.white(`📋 [${request.timestamp}] ${request.text}`));
+    session.toolCalls
+      .filter(call => call.request === index)
+      .forEach(call => console.log(chalk.white(`   🔧 ${call.step}: ${call.name}`)));
+  });
+  if (session.filesTouched.length > 0) {
+    console.log(chalk.white(`📂 Files touched: ${session.filesTouched.join(', ')}`));
+  }
+  if (session.usage) {
+    console.log(chalk.white(`📊 Tokens used: ${formatTokens(session.usage.inputTokens)} in, ${formatTokens(session.usage.outputTokens)} out`));
+  }
+  console.log(chalk.white(`🗜️ Context: ~${formatTokens(contextTokens(session.contents))} of ${formatTokens(contextOptions.contextBudget)} tokens`));
+  console.log(chalk.cyan('=================================='));
+}
+
 function showHelp(): void {
   console.log(chalk.cyan('========= Cursor2.0 Terminal Help ========='));
   console.log(chalk.white('📜 Welcome to the Cursor2.0 Terminal Agent!'));
@@ -629,6 +1902,26 @@ function showHelp(): void {
   console.log(chalk.white('  "run the project"'));
   console.log(chalk.white('  "execute the python script"'));
   console.log(chalk.white('\n🔹 Other commands:'));
+  console.log(chalk.white('  sessions - List saved sessions'));
+  console.log(chalk.white('  resume <id|name> - Continue a saved session'));
+  console.log(chalk.white('  new - Start a new session'));
+  console.log(chalk.white('  projects - List the projects with their type, files and last run'));
+  console.log(chalk.white('  import <path> [name] - Index an existing repository and work on it like any other project'));
+  console.log(chalk.white('  install [project] - Check the project\'s package.json/requirements.txt against the registry and install them'));
+  console.log(chalk.white('  preview [project] - Serve a web project locally; the page reloads as the agent changes it'));
+  console.log(chalk.white('  preview stop [project] - Stop the running previews'));
+  console.log(chalk.white(`  use <project> - Make a project the target of your requests (currently ${projectRegistry.active || 'none'})`));
+  console.log(chalk.white('  templates - List project templates (force one with --template <name>)'));
+  console.log(chalk.white('  config - Show the effective configuration and where each value comes from'));
+  console.log(chalk.white('  checkpoints - List file snapshots taken before each request'));
+  console.log(chalk.white('  undo - Revert the files changed by the last request'));
+  console.log(chalk.white('  restore <id> - Revert to the state before checkpoint <id>'));
+  console.log(chalk.white(`  review on/off - Approve each file change from a diff (currently ${reviewMode ? 'on' : 'off'})`));
+  console.log(chalk.white('  history - Show requests and tool calls of the current session'));
+  console.log(chalk.white('  log [n] - Show the last n entries (default 30) of this session\'s run log'));
+  console.log(chalk.white('  replay <id|name> - Re-render every run of a session from its log'));
+  console.log(chalk.white('  compact - Summarize earlier turns now to shrink the context sent to the model'));
+  console.log(chalk.white('  clear - Clear the current session history'));
   console.log(chalk.white('  help - Show this help message'));
   console.log(chalk.white('  exit/quit - Exit the program'));
   console.log(chalk.white(`\n📂 All projects are stored in the "${ROOT_DIR}" directory.`));
@@ -637,21 +1930,160 @@ function showHelp(): void {
   rl.prompt();
 }
 
+// Runs one subcommand without the REPL; resolves to the process exit code
+async function runCommandLine(): Promise<number> {
+  ensureRootDir();
+  const projects = listProjects();
+  if (cli.command === 'templates') {
+    if (cli.json) writeStdout(`${JSON.stringify(templateRegistry.templates, null, 2)}\n`);
+    else showTemplates();
+    return 0;
+  }
+  if (cli.command === 'import') {
+    const index = importProject(cli.source!, cli.project);
+    if (cli.json) writeStdout(`${JSON.stringify(index ? { project: index.project, source: index.source, type: index.type, files: index.files.length, skipped: index.skipped } : { error: 'import_failed', source: cli.source })}\n`);
+    return index ? 0 : 1;
+  }
+  if (cli.command === 'replay') {
+    if (!cli.json) return replaySession(cli.session!) ? 0 : 1;
+    const entries = readLog(LOGS_DIR, loadSession(SESSIONS_DIR, cli.session!)?.id || cli.session!);
+    writeStdout(`${JSON.stringify(entries || { error: 'log_not_found', session: cli.session }, null, 2)}\n`);
+    return entries ? 0 : 1;
+  }
+  if (cli.command === 'config') {
+    if (cli.json) writeStdout(`${JSON.stringify({ config, sources: configSources, errors: configErrors }, null, 2)}\n`);
+    else showConfig();
+    return 0;
+  }
+  if (cli.command === 'list') {
+    if (cli.json) {
+      writeStdout(`${JSON.stringify({ root: ROOT_DIR, projects }, null, 2)}\n`);
+    } else {
+      console.log(chalk.cyan(`========= Projects in ${ROOT_DIR} =========`));
+      if (projects.length === 0) console.log(chalk.white('  No projects yet.'));
+      projects.forEach(project => console.log(chalk.white(`  📂 ${project.name} (${project.files.length} file(s))`)));
+      console.log(chalk.cyan('==========================================='));
+    }
+    return 0;
+  }
+
+  let projectName: string | undefined;
+  if (cli.project !== undefined) {
+    const target = resolveWorkspacePath(workspace, cli.project);
+    projectName = isViolation(target) ? cli.project : target.relative;
+    if (!projects.some(project => project.name === projectName)) {
+      console.log(chalk.red(`❌ No project "${projectName}" in ${ROOT_DIR}. Run "list" to see the projects.`));
+      if (cli.json) writeStdout(`${JSON.stringify({ error: 'project_not_found', project: projectName })}\n`);
+      return 1;
+    }
+    session.projectName = projectName;
+  }
+  if (cli.command === 'install') {
+    const result = await installDependencies({ projectDir: projectName! });
+    if (cli.json) writeStdout(`${JSON.stringify(result, null, 2)}\n`);
+    else reportInstall(result);
+    return Array.isArray(result) || (typeof result === 'string' && !result.startsWith('Error')) ? 0 : 1;
+  }
+  const request =
+    cli.command === 'create' ? cli.prompt! : cli.command === 'update' ? `In the project "${projectName}": ${cli.prompt}` : `Run the project "${projectName}"`;
+  const summary = await runAgent(request);
+  if (cli.json) writeStdout(`${JSON.stringify(summary, null, 2)}\n`);
+  return summary.status === 'completed' && !summary.verification?.some(report => !report.passed) ? 0 : 1;
+}
+
+// Ctrl+C cancels the request in progress (outstanding model calls are aborted, a running command is killed and nothing
+// more is written); pressed again, or while idle, it quits
+const handleInterrupt = (quit: () => void) => {
+  if (activeAbort && !activeAbort.signal.aborted) {
+    console.log(chalk.yellow('\n⛔ Cancelling the current request (press Ctrl+C again to quit)...'));
+    activeAbort.abort();
+    return;
+  }
+  if (activeAbort) process.exit(130);
+  quit();
+};
+
+// Exposes the agent over HTTP (see server.ts) until the process is stopped
+async function serve(): Promise<void> {
+  ensureRootDir();
+  const token = createServerToken();
+  agentServer = await startServer(
+    {
+      root: ROOT_DIR,
+      runRequest: (request, projectName) => {
+        if (projectName) session.projectName = projectName;
+        return runAgent(request);
+      },
+      listProjects,
+      readDirectory: dirPath => readDirectory(dirPath, true),
+      readFile,
+      cancelRun: () => activeAbort?.abort(),
+    },
+    cli.port,
+    cli.host,
+    { token, origins: config.serverOrigins }
+  );
+  console.log(chalk.cyan('========= Cursor2.0 API Server ========='));
+  console.log(chalk.white(`🌐 Listening on http://${cli.host}:${cli.port}`));
+  console.log(chalk.white(`📂 Projects directory: "${ROOT_DIR}"`));
+  console.log(chalk.white(`🤖 Model: ${provider.name} (${provider.model})`));
+  console.log(chalk.white(`🔑 Token: ${token}`));
+  console.log(chalk.white(`🔒 Browser origins allowed: ${config.serverOrigins.length > 0 ? config.serverOrigins.join(', ') : 'none'}`));
+  console.log(chalk.white('💡 Send "Authorization: Bearer <token>" with every /api request; POST /api/runs { "request": "..." } starts a run. Press Ctrl+C to stop'));
+  console.log(chalk.cyan('========================================'));
+}
+
 async function main(): Promise<void> {
+  process.on('SIGINT', () => handleInterrupt(() => (cli.command === 'interactive' ? rl.close() : process.exit(130))));
+  if (cli.workspace && !importProject(cli.workspace)) process.exit(1);
+  if (cli.command === 'serve') {
+    rl.close();
+    await serve();
+    return;
+  }
+  if (cli.command === 'preview') {
+    rl.close();
+    if (!(await previewProject(cli.project!, true))) process.exit(1);
+    console.log(chalk.white('   Pages reload whenever files of the project change. Press Ctrl+C to stop.'));
+    return;
+  }
+  if (cli.command !== 'interactive') {
+    rl.on('close', () => {
+      inputClosed = true;
+      if (questionPending) stopForMissingInput();
+    });
+    process.exit(await runCommandLine());
+  }
+
   console.log(chalk.cyan('========= Welcome to Cursor2.0 Terminal ========='));
   console.log(chalk.white('🌟 Create amazing projects with ease!'));
-  console.log(chalk.white('📂 All projects will be created/updated in the "chaicode" directory'));
+  console.log(chalk.white(`📂 All projects will be created/updated in the "${ROOT_DIR}" directory`));
+  console.log(chalk.white(`🤖 Model: ${provider.name} (${provider.model})`));
   console.log(chalk.white('💡 Type your request or "help" to see available commands'));
   console.log(chalk.cyan('============================================='));
   console.log();
   ensureRootDir();
   rl.prompt();
-  rl.on('line', async (input: string) => {
-    if (input.trim()) await processInput(input.trim());
-    console.log();
-    rl.prompt();
+  rl.on('SIGINT', () => handleInterrupt(() => rl.close()));
+  // Lines typed while a request is running wait for it to finish instead of starting a second run
+  let queue = Promise.resolve();
+  rl.on('line', (input: string) => {
+    queue = queue
+      .then(async () => {
+        if (input.trim()) await processInput(input.trim());
+      })
+      // A failed command (e.g. a corrupt session file) is reported and the prompt stays usable
+      .catch(error => {
+        activeAbort = null;
+        console.log(chalk.red(`❌ ${(error as Error).message || error}`));
+      })
+      .then(() => {
+        console.log();
+        rl.prompt();
+      });
   });
-  rl.on('close', () => {
+  rl.on('close', async () => {
+    await queue;
     console.log(chalk.cyan('========= Goodbye! ========='));
     console.log(chalk.white('👋 Thank you for using the Cursor2.0 Terminal!'));
     console.log(chalk.cyan('============================'));
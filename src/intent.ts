@@ -0,0 +1,115 @@
+import { LLMProvider } from './providers';
+import { ToolSchema, validateArgs } from './tools';
+
+export type IntentKind = 'new_project' | 'update' | 'execution' | 'question';
+
+// Typed result of the classification stage that runs before the five-step loop
+export interface Intent {
+  kind: IntentKind;
+  projectName?: string;
+  projectType?: string;
+  // For updates: files to change, relative to the project folder
+  targetFiles: string[];
+  summary: string;
+  // Name of the project template that fits best, when one was offered
+  template?: string;
+}
+
+export interface ProjectListing {
+  name: string;
+  files: string[];
+}
+
+export interface TemplateOption {
+  name: string;
+  description: string;
+}
+
+const INTENT_KINDS: IntentKind[] = ['new_project', 'update', 'execution', 'question'];
+
+export const intentSchema: ToolSchema = {
+  name: 'classify_intent',
+  description: 'Records what the user wants and which project and files it concerns',
+  parameters: {
+    type: 'object',
+    properties: {
+      kind: { type: 'string', enum: INTENT_KINDS, description: 'What kind of request this is' },
+      projectName: { type: 'string', description: 'Existing project folder, or a short kebab-case name for a new project' },
+      projectType: { type: 'string', description: 'e.g. "HTML web app", "Python script", "React app"' },
+      targetFiles: {
+        type: 'array',
+        description: 'For updates: every file that has to change, relative to the project folder (e.g. "style.css")',
+        items: { type: 'string' },
+      },
+      summary: { type: 'string', description: 'One sentence restating the request' },
+      template: { type: 'string', description: 'Name of the project template that fits the project best' },
+    },
+    required: ['kind', 'summary'],
+  },
+};
+
+const buildPrompt = (request: string, rootDir: string, projects: ProjectListing[], activeProject?: string, templates: TemplateOption[] = []): string => {
+  const listing = projects.length
+    ? projects.map(project => `- ${project.name}: ${project.files.join(', ') || '(empty)'}`).join('\n')
+    : '(none)';
+  const templateListing = templates.map(template => `- ${template.name}: ${template.description}`).join('\n');
+  return `Classify a request sent to a coding agent whose projects live in the "${rootDir}" directory.
+
+Existing projects and their files:
+${listing}
+${activeProject ? `\nThe project the user worked on most recently is "${activeProject}".\n` : ''}
+Kinds:
+- new_project: the user wants something new created, however it is phrased (e.g. "start a new todo app" is new_project, not execution).
+- update: the user wants existing files changed or fixed. List every file that has to change in targetFiles.
+- execution: the user wants an existing project run, started or executed.
+- question: anything that can be answered without creating, changing or running files.
+
+For update and execution, projectName must be one of the existing projects. For new_project, choose a short kebab-case projectName that is not taken.
+${templateListing ? `\nProject templates (set template to the one that fits the project best):\n${templateListing}\n` : ''}
+Request: "${request}"
+
+Call classify_intent with the result.`;
+};
+
+// Accepts the function call or, from models that answer in text, the same object as JSON
+const readIntentArgs = (text: string, args: unknown): unknown => {
+  if (args !== undefined) return args;
+  return JSON.parse(text.replace(/^```(json)?\s*|\s*```$/gm, '').trim());
+};
+
+// Target paths relative to the project folder, whatever prefix the model used
+const normalizeTargets = (files: string[], rootDir: string, projectName?: string): string[] =>
+  files
+    .map(file => file.replace(/\\/g, '/').replace(/^\.?\//, ''))
+    .map(file => (file.startsWith(`${rootDir}/`) ? file.slice(rootDir.length + 1) : file))
+    .map(file => (projectName && file.startsWith(`${projectName}/`) ? file.slice(projectName.length + 1) : file))
+    .filter((file, index, all) => file && all.indexOf(file) === index);
+
+export const classifyIntent = async (
+  provider: LLMProvider,
+  request: string,
+  rootDir: string,
+  projects: ProjectListing[],
+  activeProject?: string,
+  templates: TemplateOption[] = [],
+  signal?: AbortSignal
+): Promise<Intent> => {
+  const reply = await provider.generate({
+    contents: [{ role: 'user', parts: [{ text: buildPrompt(request, rootDir, projects, activeProject, templates) }] }],
+    tools: [intentSchema],
+    signal,
+  });
+  const args = readIntentArgs(reply.text, reply.toolCall?.args);
+  const errors = validateArgs(intentSchema.parameters, args);
+  if (errors.length > 0) throw new Error(`Invalid intent: ${errors.join('; ')}`);
+
+  const { kind, projectName, projectType, targetFiles, summary, template } = args as Record<string, any>;
+  return {
+    kind,
+    projectName: projectName || undefined,
+    projectType: projectType || undefined,
+    targetFiles: normalizeTargets(targetFiles || [], rootDir, projectName),
+    summary,
+    template: templates.some(option => option.name === template) ? template : undefined,
+  };
+};
@@ -0,0 +1,171 @@
+// Targeted edits to existing files: search/replace blocks or unified diff hunks
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+}
+
+// One file of an apply_patch call; exactly one of edits or diff is expected
+export interface FilePatch {
+  fileName: string;
+  edits?: SearchReplaceEdit[];
+  diff?: string;
+}
+
+// Returned to the model when an edit or hunk does not match the file on disk
+export interface PatchFailure {
+  error: 'patch_failed';
+  path: string;
+  // 1-based index of the edit or hunk that failed
+  hunk?: number;
+  message: string;
+}
+
+interface Hunk {
+  header: string;
+  oldStart: number;
+  // Lines the hunk expects in the file (context and removals) and what replaces them
+  oldLines: string[];
+  newLines: string[];
+}
+
+const MAX_QUOTED_CHARS = 120;
+
+export const isPatchFailure = (value: unknown): value is PatchFailure =>
+  typeof value === 'object' && value !== null && (value as PatchFailure).error === 'patch_failed';
+
+const quote = (line: string | undefined): string =>
+  line === undefined ? 'end of file' : JSON.stringify(line.length > MAX_QUOTED_CHARS ? `${line.slice(0, MAX_QUOTED_CHARS)}...` : line);
+
+const lineAt = (content: string, offset: number): number => content.slice(0, offset).split('\n').length;
+
+const occurrences = (content: string, search: string): number[] => {
+  const found: number[] = [];
+  for (let index = content.indexOf(search); index !== -1; index = content.indexOf(search, index + 1)) found.push(index);
+  return found;
+};
+
+// Explains why a search block was not found by locating its first line and the first line that differs
+const describeMismatch = (content: string, search: string): string => {
+  const fileLines = content.split('\n');
+  const searchLines = search.split('\n');
+  const first = searchLines.find(line => line.trim());
+  if (first === undefined) return 'the search text is blank';
+  const start = fileLines.findIndex(line => line.trim() === first.trim());
+  if (start === -1) return `its first line ${quote(first.trim())} does not appear in the file`;
+  const offset = searchLines.indexOf(first);
+  for (let index = offset; index < searchLines.length; index++) {
+    const actual = fileLines[start - offset + index];
+    if (actual !== searchLines[index]) {
+      const whitespace = actual !== undefined && actual.trim() === searchLines[index].trim() ? ' (only whitespace differs)' : '';
+      return `closest match starts at line ${start - offset + 1}, but line ${start - offset + index + 1} is ${quote(actual)} instead of ${quote(searchLines[index])}${whitespace}`;
+    }
+  }
+  return `closest match starts at line ${start - offset + 1}`;
+};
+
+// Applies search/replace edits in order; every search text must occur exactly once
+export const applyEdits = (fileName: string, content: string | null, edits: SearchReplaceEdit[]): string | PatchFailure => {
+  let result = content;
+  for (let index = 0; index < edits.length; index++) {
+    const { search, replace } = edits[index];
+    const fail = (message: string): PatchFailure => ({ error: 'patch_failed', path: fileName, hunk: index + 1, message: `Edit ${index + 1} for ${fileName}: ${message}` });
+    if (result === null) {
+      if (search !== '') return fail('the file does not exist; use an empty search text to create it');
+      result = replace;
+      continue;
+    }
+    if (search === '') {
+      if (result !== '') return fail('an empty search text only works for new or empty files');
+      result = replace;
+      continue;
+    }
+    const found = occurrences(result, search);
+    if (found.length === 0) return fail(`search text not found; ${describeMismatch(result, search)}. Read the file again and copy the lines exactly.`);
+    if (found.length > 1) {
+      const lines = found.map(offset => lineAt(result!, offset)).join(', ');
+      return fail(`search text matches ${found.length} times (lines ${lines}); include more surrounding lines so it is unique.`);
+    }
+    result = result.slice(0, found[0]) + replace + result.slice(found[0] + search.length);
+  }
+  return result ?? '';
+};
+
+const parseHunks = (fileName: string, diff: string): Hunk[] | PatchFailure => {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+  const lines = diff.replace(/\r\n/g, '\n').replace(/\n$/, '').split('\n');
+  for (const line of lines) {
+    const header = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/.exec(line);
+    if (header) {
+      current = { header: header[0], oldStart: Number(header[1]), oldLines: [], newLines: [] };
+      hunks.push(current);
+    } else if (!current) {
+      if (!/^(---|\+\+\+|diff |index )/.test(line) && line.trim()) {
+        return { error: 'patch_failed', path: fileName, message: `Diff for ${fileName}: expected a "@@ -l,s +l,s @@" hunk header before ${quote(line)}` };
+      }
+    } else if (line.startsWith('\\')) {
+      // "\ No newline at end of file"
+    } else if (line.startsWith('-')) {
+      current.oldLines.push(line.slice(1));
+    } else if (line.startsWith('+')) {
+      current.newLines.push(line.slice(1));
+    } else if (line.startsWith(' ') || line === '') {
+      current.oldLines.push(line.slice(1));
+      current.newLines.push(line.slice(1));
+    } else {
+      return { error: 'patch_failed', path: fileName, hunk: hunks.length, message: `Diff for ${fileName}: hunk ${hunks.length} has a line that does not start with " ", "-" or "+": ${quote(line)}` };
+    }
+  }
+  if (hunks.length === 0) return { error: 'patch_failed', path: fileName, message: `Diff for ${fileName} contains no hunks` };
+  return hunks;
+};
+
+const matchesAt = (fileLines: string[], block: string[], start: number): boolean =>
+  start >= 0 && start + block.length <= fileLines.length && block.every((line, index) => fileLines[start + index] === line);
+
+// Applies unified diff hunks, allowing them to sit at a different line than the header says
+export const applyUnifiedDiff = (fileName: string, content: string | null, diff: string): string | PatchFailure => {
+  const hunks = parseHunks(fileName, diff);
+  if (isPatchFailure(hunks)) return hunks;
+  const trailingNewline = content === null || content === '' || content.endsWith('\n');
+  const fileLines = content ? content.replace(/\n$/, '').split('\n') : [];
+  // Lines added or removed by earlier hunks shift where later ones are expected
+  let shift = 0;
+  let searchFrom = 0;
+
+  for (let index = 0; index < hunks.length; index++) {
+    const hunk = hunks[index];
+    const expected = Math.max(0, hunk.oldStart - 1 + shift);
+    let start = -1;
+    // Searches outwards from the expected line; a header may point past the end of the file
+    for (let distance = 0; start === -1 && distance <= Math.max(expected, fileLines.length); distance++) {
+      if (expected - distance >= searchFrom && matchesAt(fileLines, hunk.oldLines, expected - distance)) start = expected - distance;
+      else if (matchesAt(fileLines, hunk.oldLines, expected + distance)) start = expected + distance;
+    }
+    if (hunk.oldLines.length === 0) start = Math.min(expected, fileLines.length);
+    if (start === -1) {
+      const mismatch = hunk.oldLines.findIndex((line, offset) => fileLines[expected + offset] !== line);
+      return {
+        error: 'patch_failed',
+        path: fileName,
+        hunk: index + 1,
+        message: `Hunk ${index + 1} (${hunk.header}) of ${fileName} does not apply: line ${expected + mismatch + 1} is ${quote(fileLines[expected + mismatch])} but the hunk expects ${quote(hunk.oldLines[mismatch])}, and its lines were not found anywhere else in the file. Read the file again and regenerate the diff.`,
+      };
+    }
+    fileLines.splice(start, hunk.oldLines.length, ...hunk.newLines);
+    shift += hunk.newLines.length - hunk.oldLines.length + (start - expected);
+    searchFrom = start + hunk.newLines.length;
+  }
+  const result = fileLines.join('\n');
+  return trailingNewline && result ? `${result}\n` : result;
+};
+
+export const applyFilePatch = (patch: FilePatch, displayName: string, content: string | null): string | PatchFailure => {
+  if (patch.diff !== undefined && patch.edits !== undefined) {
+    return { error: 'patch_failed', path: displayName, message: `Patch for ${displayName}: pass either "edits" or "diff", not both` };
+  }
+  if (patch.diff !== undefined) return applyUnifiedDiff(displayName, content, patch.diff);
+  if (patch.edits !== undefined) return applyEdits(displayName, content, patch.edits);
+  return { error: 'patch_failed', path: displayName, message: `Patch for ${displayName}: "edits" or "diff" is required` };
+};
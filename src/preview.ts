@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import express, { Request, Response } from 'express';
+
+export interface PreviewOptions {
+  port: number;
+  host: string;
+  // Absolute path of a URL path inside the project, or undefined when the workspace guard rejects it
+  resolve(urlPath: string): string | undefined;
+  // Folder to watch for changes made outside this process (e.g. by a CLI run in another terminal)
+  watchDir?: string;
+}
+
+// A running preview of one project folder
+export interface Preview {
+  project: string;
+  url: string;
+  // Tells every open page to reload
+  reload(): void;
+  stop(): Promise<void>;
+}
+
+// Server-Sent Events endpoint the injected script listens on; unlikely to clash with a project's own files
+const RELOAD_PATH = '/__cursor2/reload';
+// Files written within this window cause one reload
+const RELOAD_DEBOUNCE_MS = 150;
+// Ports tried after the configured one when it is taken
+const PORT_ATTEMPTS = 20;
+
+const RELOAD_SCRIPT = `<script>(() => { const events = new EventSource('${RELOAD_PATH}'); events.onmessage = () => location.reload(); })();</script>`;
+
+// Adds the live-reload script before </body>, or at the end of documents without one
+const injectReload = (html: string): string => {
+  const end = html.search(/<\/body\s*>/i);
+  return end === -1 ? `${html}\n${RELOAD_SCRIPT}` : `${html.slice(0, end)}${RELOAD_SCRIPT}\n${html.slice(end)}`;
+};
+
+const listen = (app: express.Express, port: number, host: string): Promise<http.Server> =>
+  new Promise((resolve, reject) => {
+    const server = app.listen(port, host, () => resolve(server));
+    server.on('error', reject);
+  });
+
+// Serves a project folder as a static site. HTML pages get a script that reloads them on reload(),
+// and folders serve their index.html. Every path goes through options.resolve, so the workspace guard applies.
+export const startPreview = async (project: string, options: PreviewOptions): Promise<Preview> => {
+  const clients = new Set<Response>();
+  const app = express();
+
+  app.get(RELOAD_PATH, (req: Request, res: Response) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.write(': connected\n\n');
+    clients.add(res);
+    req.on('close', () => clients.delete(res));
+  });
+
+  app.use((req: Request, res: Response) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.status(405).end();
+      return;
+    }
+    let file: string | undefined;
+    try {
+      file = options.resolve(decodeURIComponent(req.path));
+    } catch {
+      file = undefined;
+    }
+    if (file && fs.existsSync(file) && fs.statSync(file).isDirectory()) {
+      if (!req.path.endsWith('/')) {
+        res.redirect(`${req.path}/`);
+        return;
+      }
+      file = path.join(file, 'index.html');
+    }
+    if (!file || !fs.existsSync(file) || !fs.statSync(file).isFile()) {
+      res.status(404).type('text').send(`Not found: ${req.path}`);
+      return;
+    }
+    res.set('Cache-Control', 'no-store');
+    if (/\.html?$/i.test(file)) res.type('html').send(injectReload(fs.readFileSync(file, 'utf-8')));
+    else res.sendFile(file);
+  });
+
+  let server: http.Server | undefined;
+  for (let port = options.port; !server; port++) {
+    try {
+      server = await listen(app, port, options.host);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EADDRINUSE' || port >= options.port + PORT_ATTEMPTS) throw error;
+    }
+  }
+  const { port } = server.address() as { port: number };
+
+  let timer: NodeJS.Timeout | undefined;
+  const reload = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => clients.forEach(client => client.write('data: reload\n\n')), RELOAD_DEBOUNCE_MS);
+  };
+  // Recursive watching needs Node 20 on Linux; without it only the agent's own writes reload the page
+  let watcher: fs.FSWatcher | undefined;
+  if (options.watchDir) {
+    try {
+      watcher = fs.watch(options.watchDir, { recursive: true }, (_, file) => {
+        if (file && !/(^|[\\/])(node_modules|\.git|\.venv)([\\/]|$)/.test(file.toString())) reload();
+      });
+    } catch {
+      watcher = undefined;
+    }
+  }
+
+  const running = server;
+  return {
+    project,
+    url: `http://${options.host}:${port}/`,
+    reload,
+    stop: () =>
+      new Promise(resolve => {
+        clearTimeout(timer);
+        watcher?.close();
+        clients.forEach(client => client.end());
+        running.close(() => resolve());
+      }),
+  };
+};
@@ -0,0 +1,131 @@
+import chalk from 'chalk';
+import { isAbortError } from './recovery';
+import { TokenUsage } from './tools';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// One model request tracked by the progress display, e.g. the content of one file.
+// Text passed to onText while the reply streams in is previewed under the job's line.
+export interface GenerationJob<T> {
+  label: string;
+  run: (signal: AbortSignal, onText: (text: string, reset?: boolean) => void) => Promise<{ value: T; usage?: TokenUsage }>;
+}
+
+export interface GenerationResult<T> {
+  label: string;
+  status: JobStatus;
+  value?: T;
+  error?: string;
+  durationMs: number;
+  usage?: TokenUsage;
+}
+
+export interface GenerationOptions {
+  concurrency: number;
+  signal: AbortSignal;
+  title: string;
+}
+
+const ICONS: Record<JobStatus, string> = { queued: '⏳', running: '🔄', done: '✅', failed: '❌', cancelled: '⛔' };
+const FRAMES = ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'];
+// Last lines of streamed text shown under each running job
+const PREVIEW_LINES = 3;
+
+const formatSeconds = (ms: number): string => `${(ms / 1000).toFixed(1)}s`;
+
+const formatUsage = (usage?: TokenUsage): string => (usage ? `${usage.inputTokens}→${usage.outputTokens} tokens` : '');
+
+const formatReceived = (text: string): string => (text ? `${text.split('\n').length} lines received` : '');
+
+// Runs the jobs with at most `concurrency` in flight and shows one status line per job.
+// On a TTY the block is redrawn in place; otherwise a line is printed whenever a job changes state.
+// Once the signal aborts, queued jobs are skipped and running ones end as "cancelled".
+export const runGenerationJobs = async <T>(jobs: GenerationJob<T>[], options: GenerationOptions): Promise<GenerationResult<T>[]> => {
+  if (jobs.length === 0) return [];
+  const results: GenerationResult<T>[] = jobs.map(job => ({ label: job.label, status: 'queued', durationMs: 0 }));
+  const startedAt: number[] = jobs.map(() => 0);
+  const streamed: string[] = jobs.map(() => '');
+  const live = Boolean(process.stdout.isTTY);
+  let frame = 0;
+  let drawn = 0;
+
+  const line = (result: GenerationResult<T>, index: number): string => {
+    const elapsed = result.status === 'running' ? Date.now() - startedAt[index] : result.durationMs;
+    const icon = result.status === 'running' && live ? chalk.cyan(FRAMES[frame % FRAMES.length]) : ICONS[result.status];
+    const received = result.status === 'running' ? formatReceived(streamed[index]) : '';
+    const details = [result.status, result.status === 'queued' ? '' : formatSeconds(elapsed), received, formatUsage(result.usage), result.error || '']
+      .filter(Boolean)
+      .join(' · ');
+    return `  ${icon} ${result.label} ${chalk.gray(details)}`;
+  };
+
+  const preview = (index: number): string[] => {
+    if (results[index].status !== 'running' || !streamed[index]) return [];
+    const width = Math.max(20, (process.stdout.columns || 80) - 8);
+    return streamed[index]
+      .split('\n')
+      .filter(text => text.trim())
+      .slice(-PREVIEW_LINES)
+      .map(text => chalk.gray(`      │ ${text.replace(/\t/g, '  ').replace(/[\u0000-\u001f\u007f]/g, '').slice(0, width)}`));
+  };
+
+  const draw = () => {
+    if (!live) return;
+    frame++;
+    const lines = results.flatMap((result, index) => [line(result, index), ...preview(index)]);
+    if (drawn > 0) process.stdout.write(`\u001b[${drawn}A`);
+    lines.forEach(text => process.stdout.write(`\u001b[2K${text}\n`));
+    // Clear what is left of a longer previous frame
+    const stale = Math.max(0, drawn - lines.length);
+    for (let i = 0; i < stale; i++) process.stdout.write('\u001b[2K\n');
+    if (stale > 0) process.stdout.write(`\u001b[${stale}A`);
+    drawn = lines.length;
+  };
+
+  const update = (index: number, changes: Partial<GenerationResult<T>>) => {
+    Object.assign(results[index], changes);
+    if (live) draw();
+    else console.log(line(results[index], index));
+  };
+
+  console.log(chalk.cyan.bold(`${options.title} (${jobs.length} request(s), up to ${options.concurrency} at a time)`));
+  draw();
+  const timer = live ? setInterval(draw, 100) : undefined;
+
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      const index = next++;
+      if (options.signal.aborted) {
+        update(index, { status: 'cancelled' });
+        continue;
+      }
+      startedAt[index] = Date.now();
+      update(index, { status: 'running' });
+      try {
+        const onText = (text: string, reset?: boolean) => {
+          streamed[index] = reset ? '' : streamed[index] + text;
+        };
+        const { value, usage } = await jobs[index].run(options.signal, onText);
+        update(index, { status: options.signal.aborted ? 'cancelled' : 'done', value, usage, durationMs: Date.now() - startedAt[index] });
+      } catch (error) {
+        const cancelled = options.signal.aborted || isAbortError(error);
+        update(index, { status: cancelled ? 'cancelled' : 'failed', error: cancelled ? undefined : (error as Error).message, durationMs: Date.now() - startedAt[index] });
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(options.concurrency, jobs.length)) }, worker));
+  } finally {
+    if (timer) clearInterval(timer);
+    draw();
+  }
+
+  const done = results.filter(result => result.status === 'done');
+  const tokens = done.reduce((sum, result) => sum + (result.usage ? result.usage.inputTokens + result.usage.outputTokens : 0), 0);
+  const failed = results.length - done.length;
+  const summary = `${done.length}/${results.length} done${failed ? `, ${failed} not completed` : ''}${tokens ? `, ${tokens} tokens` : ''}`;
+  console.log(failed ? chalk.yellow(`  ${summary}`) : chalk.green(`  ${summary}`));
+  return results;
+};
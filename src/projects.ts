@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { InstallRecord } from './dependencies';
+import { isDirectoryPath, SKIPPED_DIRS, writeFileAtomic } from './files';
+import { IgnoreRules, isIgnored, readGitignore } from './ignore';
+
+export interface ManifestEntry {
+  // Relative to the project folder, with forward slashes
+  path: string;
+  size: number;
+}
+
+export interface ProjectRecord {
+  name: string;
+  type?: string;
+  template?: string;
+  // Folder of an imported repository; the project folder is a link to it
+  source?: string;
+  createdAt: string;
+  updatedAt: string;
+  // Files of the project as of the last scan (every request refreshes it)
+  files: ManifestEntry[];
+  lastRun?: { command: string; exitCode: number | null; timedOut: boolean; at: string };
+  // Last dependency install per manifest
+  dependencies?: InstallRecord[];
+}
+
+// Every project folder of the workspace and the one requests refer to by default
+export interface ProjectRegistry {
+  active?: string;
+  projects: Record<string, ProjectRecord>;
+}
+
+// Files recorded per project; larger projects are listed partially
+const MANIFEST_LIMIT = 200;
+
+export const loadRegistry = (file: string): ProjectRegistry => {
+  if (!fs.existsSync(file)) return { projects: {} };
+  try {
+    const registry = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    return { active: registry.active, projects: registry.projects || {} };
+  } catch {
+    return { projects: {} };
+  }
+};
+
+export const saveRegistry = (file: string, registry: ProjectRegistry): void => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  writeFileAtomic(file, JSON.stringify(registry, null, 2));
+};
+
+// Files of a project folder, skipping hidden entries, dependencies, build output and what .gitignore excludes
+export const scanManifest = (projectDir: string): ManifestEntry[] => {
+  const entries: ManifestEntry[] = [];
+  const walk = (dir: string, prefix: string, rules: IgnoreRules) => {
+    fs.readdirSync(dir, { withFileTypes: true })
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .forEach(entry => {
+        if (entries.length >= MANIFEST_LIMIT || entry.name.startsWith('.') || SKIPPED_DIRS.includes(entry.name)) return;
+        const absolute = path.join(dir, entry.name);
+        if (isIgnored(rules, `${prefix}${entry.name}`, entry.isDirectory())) return;
+        if (entry.isDirectory()) walk(absolute, `${prefix}${entry.name}/`, readGitignore(absolute, `${prefix}${entry.name}`, rules));
+        else if (entry.isFile()) entries.push({ path: `${prefix}${entry.name}`, size: fs.statSync(absolute).size });
+      });
+  };
+  walk(projectDir, '', readGitignore(projectDir, ''));
+  return entries;
+};
+
+// Creates or updates the record of a project and refreshes its manifest from disk; undefined changes keep the old value
+export const recordProject = (registry: ProjectRegistry, rootDir: string, name: string, changes: Partial<ProjectRecord> = {}): ProjectRecord => {
+  const now = new Date().toISOString();
+  const existing = registry.projects[name];
+  const defined = Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined));
+  const record: ProjectRecord = { ...(existing || { name, createdAt: now }), ...defined, name, updatedAt: now, files: scanManifest(path.join(rootDir, name)) };
+  registry.projects[name] = record;
+  return record;
+};
+
+// Matches the registry with the folders on disk: folders created outside the agent are added,
+// records of deleted folders are dropped and manifests are refreshed. Returns true when anything changed.
+export const syncRegistry = (registry: ProjectRegistry, rootDir: string): boolean => {
+  const folders = fs.existsSync(rootDir)
+    ? fs
+        .readdirSync(rootDir, { withFileTypes: true })
+        // Imported projects are links to folders outside the workspace
+        .filter(entry => (entry.isDirectory() || (entry.isSymbolicLink() && isDirectoryPath(path.join(rootDir, entry.name)))) && !entry.name.startsWith('.'))
+        .map(entry => entry.name)
+    : [];
+  let changed = false;
+  folders
+    .filter(name => !registry.projects[name])
+    .forEach(name => {
+      const createdAt = fs.statSync(path.join(rootDir, name)).birthtime.toISOString();
+      registry.projects[name] = { name, createdAt, updatedAt: createdAt, files: scanManifest(path.join(rootDir, name)) };
+      changed = true;
+    });
+  folders
+    .filter(name => registry.projects[name])
+    .forEach(name => {
+      const files = scanManifest(path.join(rootDir, name));
+      if (JSON.stringify(files) === JSON.stringify(registry.projects[name].files)) return;
+      registry.projects[name].files = files;
+      changed = true;
+    });
+  Object.keys(registry.projects)
+    .filter(name => !folders.includes(name))
+    .forEach(name => {
+      delete registry.projects[name];
+      changed = true;
+    });
+  if (registry.active && !registry.projects[registry.active]) {
+    registry.active = undefined;
+    changed = true;
+  }
+  return changed;
+};
+
+const formatSize = (bytes: number): string => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`);
+
+// Context message that tells the agent which folder and files a request is about
+export const describeProject = (record: ProjectRecord, rootDir: string): string => {
+  const details = [record.type, record.template && `template "${record.template}"`, record.source && `imported from ${record.source}`].filter(Boolean).join(', ');
+  const files = record.files.map(file => `${file.path} (${formatSize(file.size)})`).join(', ');
+  const partial = record.files.length >= MANIFEST_LIMIT ? ' (first files only)' : '';
+  const lastRun = record.lastRun ? ` Last run: "${record.lastRun.command}" ${record.lastRun.timedOut ? 'timed out' : `exited with code ${record.lastRun.exitCode}`}.` : '';
+  const installs = (record.dependencies || [])
+    .map(install => ` Dependencies of ${install.file}: ${install.status === 'installed' ? `installed (${install.packages.map(pkg => `${pkg.name}@${pkg.version || pkg.spec}`).join(', ') || 'none'})` : 'install failed'}.`)
+    .join('');
+  return `Active project "${record.name}"${details ? ` (${details})` : ''} in "${rootDir}/${record.name}". Files${partial}: ${files || 'none yet'}.${lastRun}${installs} Unless the user names another project, read and change files inside this folder only.`;
+};
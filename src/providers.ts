@@ -0,0 +1,371 @@
+import * as fs from 'fs';
+import fetch, { Response } from 'node-fetch';
+import { ModelReply, REPORT_STEP, TokenUsage, ToolCall, ToolSchema } from './tools';
+
+export type ProviderName = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface Message {
+  role: string;
+  parts: { text: string }[];
+}
+
+// A piece of a streamed reply: text, or a fragment of the function call arguments (JSON).
+// reset means the request is being retried and earlier pieces should be discarded.
+export interface StreamDelta {
+  text?: string;
+  toolArgs?: string;
+  reset?: boolean;
+}
+
+export interface GenerateRequest {
+  systemInstruction?: string;
+  contents: Message[];
+  tools?: ToolSchema[];
+  // Aborts the HTTP request (Ctrl+C)
+  signal?: AbortSignal;
+  // When set the reply is streamed and every piece is passed here as it arrives;
+  // generate still resolves with the complete reply
+  onDelta?: (delta: StreamDelta) => void;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  generate: (request: GenerateRequest) => Promise<ModelReply>;
+}
+
+export interface ProviderOptions {
+  provider?: string;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  mockScript?: string;
+  // Sampling temperature; the endpoint's default when unset
+  temperature?: number;
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  gemini: 'gemini-2.0-flash',
+  openai: 'gpt-4o-mini',
+  ollama: 'llama3.1',
+  mock: 'mock',
+};
+
+// Non-OK response from a model endpoint; status lets callers decide whether to retry
+export class HttpError extends Error {
+  constructor(public status: number, public retryAfterMs?: number) {
+    super(`HTTP error! Status: ${status}`);
+    this.name = 'HttpError';
+  }
+}
+
+const joinParts = (message: Message): string => message.parts.map(part => part.text).join('\n');
+
+const post = async (url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw new HttpError(response.status, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined);
+  }
+  return response;
+};
+
+const postJson = async (url: string, body: unknown, headers: Record<string, string> = {}, signal?: AbortSignal): Promise<any> =>
+  (await post(url, body, headers, signal)).json();
+
+// Calls onLine for every line of a streamed response body as it arrives
+const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of response.body as AsyncIterable<Uint8Array>) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => line.trim() && onLine(line.trim()));
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) onLine(buffer.trim());
+};
+
+// Server-Sent Events (Gemini, OpenAI): one JSON object per "data:" line
+const readEvents = (response: Response, onEvent: (data: any) => void): Promise<void> =>
+  readLines(response, line => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (data !== '[DONE]') onEvent(JSON.parse(data));
+  });
+
+// Function arguments arrive as a JSON string from OpenAI and as an object from Ollama
+const parseArguments = (raw: unknown): unknown => {
+  if (typeof raw !== 'string') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+const toChatMessages = (request: GenerateRequest) => [
+  ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+  ...request.contents.map(message => ({
+    role: message.role === 'model' ? 'assistant' : 'user',
+    content: joinParts(message),
+  })),
+];
+
+const toChatTools = (tools: ToolSchema[]) =>
+  tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } }));
+
+const fromChatMessage = (message: any, usage?: TokenUsage, finishReason?: string): ModelReply => {
+  const call = message?.tool_calls?.[0]?.function;
+  const toolCall: ToolCall | undefined = call ? { name: call.name, args: parseArguments(call.arguments) } : undefined;
+  return { text: message?.content || '', toolCall, usage, truncated: finishReason === 'length' };
+};
+
+const readUsage = (input: unknown, output: unknown): TokenUsage | undefined =>
+  typeof input === 'number' || typeof output === 'number' ? { inputTokens: Number(input) || 0, outputTokens: Number(output) || 0 } : undefined;
+
+const fromGeminiParts = (parts: any[], usage?: TokenUsage, finishReason?: string): ModelReply => {
+  const call = parts.find(part => part.functionCall)?.functionCall;
+  return {
+    text: parts.map(part => part.text || '').join(''),
+    toolCall: call ? { name: call.name, args: call.args } : undefined,
+    usage,
+    truncated: finishReason === 'MAX_TOKENS',
+  };
+};
+
+// Google Gemini generateContent API (streamGenerateContent when streaming)
+const createGeminiProvider = (model: string, apiKey?: string, baseUrl?: string, temperature?: number): LLMProvider => ({
+  name: 'gemini',
+  model,
+  generate: async request => {
+    const base = baseUrl || 'https://generativelanguage.googleapis.com/v1beta';
+    const body: any = { contents: request.contents };
+    if (temperature !== undefined) body.generationConfig = { temperature };
+    if (request.systemInstruction) {
+      body.system_instruction = { parts: [{ text: request.systemInstruction }] };
+    }
+    if (request.tools) {
+      body.tools = [{ functionDeclarations: request.tools }];
+      body.toolConfig = { functionCallingConfig: { mode: 'ANY' } };
+    }
+    const usageOf = (data: any) => readUsage(data.usageMetadata?.promptTokenCount, data.usageMetadata?.candidatesTokenCount);
+    if (!request.onDelta) {
+      const data = await postJson(`${base}/models/${model}:generateContent?key=${apiKey}`, body, {}, request.signal);
+      return fromGeminiParts(data.candidates?.[0]?.content?.parts || [], usageOf(data), data.candidates?.[0]?.finishReason);
+    }
+    const response = await post(`${base}/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`, body, {}, request.signal);
+    const parts: any[] = [];
+    let usage: TokenUsage | undefined;
+    let finishReason: string | undefined;
+    await readEvents(response, data => {
+      const chunk: any[] = data.candidates?.[0]?.content?.parts || [];
+      // Function calls are not split across chunks; their arguments arrive in one piece
+      chunk.forEach(part => request.onDelta!(part.functionCall ? { toolArgs: JSON.stringify(part.functionCall.args || {}) } : { text: part.text || '' }));
+      parts.push(...chunk);
+      usage = usageOf(data) || usage;
+      finishReason = data.candidates?.[0]?.finishReason || finishReason;
+    });
+    return fromGeminiParts(parts, usage, finishReason);
+  },
+});
+
+// Any endpoint speaking the OpenAI chat completions protocol
+const createOpenAIProvider = (model: string, apiKey?: string, baseUrl?: string, temperature?: number): LLMProvider => ({
+  name: 'openai',
+  model,
+  generate: async request => {
+    const base = (baseUrl || 'https://api.openai.com/v1').replace(/\/$/, '');
+    const body: any = { model, messages: toChatMessages(request), temperature };
+    if (request.tools) {
+      body.tools = toChatTools(request.tools);
+      body.tool_choice = 'required';
+    }
+    const headers: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+    if (!request.onDelta) {
+      const data = await postJson(`${base}/chat/completions`, body, headers, request.signal);
+      return fromChatMessage(data.choices?.[0]?.message, readUsage(data.usage?.prompt_tokens, data.usage?.completion_tokens), data.choices?.[0]?.finish_reason);
+    }
+    const response = await post(`${base}/chat/completions`, { ...body, stream: true, stream_options: { include_usage: true } }, headers, request.signal);
+    let content = '';
+    const call = { name: '', arguments: '' };
+    let usage: TokenUsage | undefined;
+    let finishReason: string | undefined;
+    await readEvents(response, data => {
+      const choice = data.choices?.[0];
+      if (choice?.delta?.content) {
+        content += choice.delta.content;
+        request.onDelta!({ text: choice.delta.content });
+      }
+      // Only the first call is used, as in the non-streaming reply
+      const fn = choice?.delta?.tool_calls?.find((toolCall: any) => (toolCall.index ?? 0) === 0)?.function;
+      if (fn?.name) call.name += fn.name;
+      if (fn?.arguments) {
+        call.arguments += fn.arguments;
+        request.onDelta!({ toolArgs: fn.arguments });
+      }
+      finishReason = choice?.finish_reason || finishReason;
+      if (data.usage) usage = readUsage(data.usage.prompt_tokens, data.usage.completion_tokens);
+    });
+    return fromChatMessage({ content, tool_calls: call.name ? [{ function: call }] : undefined }, usage, finishReason);
+  },
+});
+
+// Local Ollama-style server (/api/chat)
+const createOllamaProvider = (model: string, baseUrl?: string, temperature?: number): LLMProvider => ({
+  name: 'ollama',
+  model,
+  generate: async request => {
+    const base = (baseUrl || 'http://localhost:11434').replace(/\/$/, '');
+    const body: any = { model, messages: toChatMessages(request), stream: Boolean(request.onDelta) };
+    if (temperature !== undefined) body.options = { temperature };
+    if (request.tools) body.tools = toChatTools(request.tools);
+    if (!request.onDelta) {
+      const data = await postJson(`${base}/api/chat`, body, {}, request.signal);
+      return fromChatMessage(data.message, readUsage(data.prompt_eval_count, data.eval_count), data.done_reason);
+    }
+    // Newline-delimited JSON; the last object has done: true and the token counts
+    const response = await post(`${base}/api/chat`, body, {}, request.signal);
+    let content = '';
+    let toolCalls: any[] | undefined;
+    let last: any = {};
+    await readLines(response, line => {
+      const data = JSON.parse(line);
+      if (data.message?.content) {
+        content += data.message.content;
+        request.onDelta!({ text: data.message.content });
+      }
+      if (data.message?.tool_calls?.length) {
+        toolCalls = data.message.tool_calls;
+        request.onDelta!({ toolArgs: JSON.stringify(toolCalls![0].function?.arguments || {}) });
+      }
+      last = data;
+    });
+    return fromChatMessage({ content, tool_calls: toolCalls }, readUsage(last.prompt_eval_count, last.eval_count), last.done_reason);
+  },
+});
+
+// Canned replies for the mock provider when no MOCK_SCRIPT is given: the intent
+// classification and one full five-step run that creates a small HTML project.
+const DEFAULT_MOCK_SCRIPT: unknown[] = [
+  { kind: 'new_project', projectName: 'hello-app', projectType: 'HTML web app', targetFiles: [], summary: 'Create a hello world page.' },
+  { step: 'initialization', content: "I'll create a new HTML hello page project.", function: null, args: null },
+  { step: 'analyze', content: "The project is an HTML web app. I'll name it 'hello-app'.", function: null, args: null },
+  {
+    step: 'generate_structure',
+    content: 'Generating structure for the hello page.',
+    function: 'generate_project_structure',
+    args: { projectType: 'HTML web app', description: 'shows a hello world page' },
+  },
+  { structure: ['hello-app/index.html', 'hello-app/README.md', 'hello-app/execute.md'] },
+  {
+    step: 'generate_files',
+    content: 'Creating files for the hello page.',
+    function: 'create_dynamic_file',
+    args: {
+      files: [
+        {
+          fileName: 'hello-app/index.html',
+          content: '<!DOCTYPE html>\n<html lang="en">\n<head>\n  <meta charset="UTF-8">\n  <title>Hello</title>\n</head>\n<body>\n  <h1>Hello, world!</h1>\n</body>\n</html>\n',
+        },
+        { fileName: 'hello-app/README.md', content: '# hello-app\n\nA hello world page generated by the mock provider.\n' },
+        { fileName: 'hello-app/execute.md', content: '# Execution Instructions for hello-app\n\nOpen `index.html` in a web browser.\n' },
+      ],
+    },
+  },
+  { step: 'final_result', content: "Successfully created 'hello-app'. Execution instructions are in 'execute.md'.", function: null, args: null },
+];
+
+const loadMockScript = (scriptPath?: string): string[] => {
+  const entries = scriptPath ? JSON.parse(fs.readFileSync(scriptPath, 'utf-8')) : DEFAULT_MOCK_SCRIPT;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error(`Mock script ${scriptPath} must be a non-empty JSON array`);
+  }
+  return entries.map(entry => (typeof entry === 'string' ? entry : JSON.stringify(entry)));
+};
+
+// Canned StepResponse JSON is replayed as a native function call when the
+// request declares tools, so the mock exercises the same path as real models.
+const mockReply = (text: string, tools?: ToolSchema[]): ModelReply => {
+  if (!tools) return { text };
+  try {
+    const { function: name, args, ...envelope } = JSON.parse(text);
+    if (!envelope.step) return { text };
+    return { text: '', toolCall: { name: name || REPORT_STEP, args: { ...envelope, ...(args || {}) } } };
+  } catch {
+    return { text };
+  }
+};
+
+// Waits like a network call would, rejecting with an AbortError when the request is cancelled
+const mockLatency = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const abortError = () => Object.assign(new Error('The operation was aborted.'), { name: 'AbortError' });
+    if (signal?.aborted) return reject(abortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Characters per piece when the mock provider streams a reply
+const MOCK_CHUNK_SIZE = 24;
+
+// Deterministic provider that replays a script of canned replies in order and
+// fails once they are used up. Lets the agent loop run without a network.
+// It reports no token usage, so calls are counted as estimated (see withUsageTracking).
+// Streamed replies are sent in small pieces spread over the latency.
+export const createMockProvider = (script: string[], latencyMs: number = 0): LLMProvider => {
+  let index = 0;
+  return {
+    name: 'mock',
+    model: DEFAULT_MODELS.mock,
+    generate: async request => {
+      if (index >= script.length) {
+        throw new Error(`Mock script exhausted: all ${script.length} replies were used; add more replies to MOCK_SCRIPT or restart the agent`);
+      }
+      const text = script[index++];
+      const reply = mockReply(text, request.tools);
+      if (request.onDelta) {
+        const streamed = reply.toolCall ? JSON.stringify(reply.toolCall.args) : reply.text;
+        const pieces = Math.max(1, Math.ceil(streamed.length / MOCK_CHUNK_SIZE));
+        for (let piece = 0; piece < pieces; piece++) {
+          await mockLatency(latencyMs / pieces, request.signal);
+          const chunk = streamed.slice(piece * MOCK_CHUNK_SIZE, (piece + 1) * MOCK_CHUNK_SIZE);
+          request.onDelta(reply.toolCall ? { toolArgs: chunk } : { text: chunk });
+        }
+      } else {
+        await mockLatency(latencyMs, request.signal);
+      }
+      return reply;
+    },
+  };
+};
+
+export const createProvider = (options: ProviderOptions = {}): LLMProvider => {
+  const name = (options.provider || process.env.LLM_PROVIDER || 'gemini').toLowerCase() as ProviderName;
+  const model = options.model || process.env.LLM_MODEL || DEFAULT_MODELS[name];
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider(model, options.apiKey || process.env.GEMINI_API_KEY, options.baseUrl, options.temperature);
+    case 'openai':
+      return createOpenAIProvider(model, options.apiKey || process.env.OPENAI_API_KEY, options.baseUrl || process.env.OPENAI_BASE_URL, options.temperature);
+    case 'ollama':
+      return createOllamaProvider(model, options.baseUrl || process.env.OLLAMA_HOST, options.temperature);
+    case 'mock':
+      return createMockProvider(loadMockScript(options.mockScript || process.env.MOCK_SCRIPT), parseInt(process.env.MOCK_LATENCY_MS || '', 10) || 0);
+    default:
+      throw new Error(`Unknown LLM provider "${name}". Use gemini, openai, ollama or mock.`);
+  }
+};
@@ -0,0 +1,117 @@
+import { HttpError, LLMProvider } from './providers';
+
+export interface RecoveryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  repairBudget: number;
+}
+
+// One failed model call or rejected step reply
+export interface RecoveryAttempt {
+  kind: 'http' | 'step';
+  attempt: number;
+  error: string;
+  delayMs?: number;
+  timestamp: string;
+}
+
+const readInt = (value: string | undefined, fallback: number): number => {
+  const parsed = parseInt(value || '', 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
+export const loadRecoveryOptions = (): RecoveryOptions => ({
+  maxRetries: readInt(process.env.LLM_MAX_RETRIES, 4),
+  baseDelayMs: readInt(process.env.LLM_RETRY_BASE_MS, 1000),
+  maxDelayMs: readInt(process.env.LLM_RETRY_MAX_MS, 30000),
+  repairBudget: readInt(process.env.STEP_REPAIR_BUDGET, 3),
+});
+
+// Cancelled requests (Ctrl+C) fail with an AbortError and are never retried
+export const isAbortError = (error: unknown): boolean => error instanceof Error && error.name === 'AbortError';
+
+// Connection failures reported by Node and by fetch (undici)
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+];
+
+const errorCode = (error: unknown): unknown => (error as { code?: unknown } | undefined)?.code;
+
+// fetch wraps connection failures in a TypeError ("fetch failed", or "terminated" for a stream that broke off)
+// whose cause carries the code
+const isNetworkError = (error: unknown): boolean =>
+  error instanceof Error &&
+  (NETWORK_ERROR_CODES.includes(errorCode(error) as string) ||
+    NETWORK_ERROR_CODES.includes(errorCode((error as { cause?: unknown }).cause) as string) ||
+    (error instanceof TypeError && /^(fetch failed|terminated)$/.test(error.message)));
+
+// Rate limits, server errors and network errors are worth retrying; other HTTP statuses,
+// unparseable replies and cancelled requests are not.
+export const isRetryable = (error: unknown): boolean => {
+  if (isAbortError(error)) return false;
+  if (error instanceof HttpError) return error.status === 429 || error.status >= 500;
+  return isNetworkError(error);
+};
+
+export const backoffDelay = (attempt: number, options: RecoveryOptions, error?: unknown): number => {
+  const retryAfter = error instanceof HttpError ? error.retryAfterMs : undefined;
+  return Math.min(options.maxDelayMs, retryAfter ?? options.baseDelayMs * 2 ** (attempt - 1));
+};
+
+// Resolves after ms, or early when the request is cancelled
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Wraps a provider so transient failures are retried with exponential backoff.
+// Every failed attempt is reported through onAttempt before the next try.
+export const withRetries = (
+  provider: LLMProvider,
+  options: RecoveryOptions,
+  onAttempt: (attempt: RecoveryAttempt) => void
+): LLMProvider => ({
+  ...provider,
+  generate: async request => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await provider.generate(request);
+      } catch (error) {
+        if (isAbortError(error) || request.signal?.aborted) throw error;
+        const retry = attempt <= options.maxRetries && isRetryable(error);
+        const delayMs = retry ? backoffDelay(attempt, options, error) : undefined;
+        onAttempt({ kind: 'http', attempt, error: (error as Error).message, delayMs, timestamp: new Date().toISOString() });
+        if (!retry) throw error;
+        // A stream that broke off is sent again from the start
+        request.onDelta?.({ reset: true });
+        await sleep(delayMs!, request.signal);
+        if (request.signal?.aborted) throw error;
+      }
+    }
+  },
+});
+
+// Corrective user turn sent back to the model after a rejected step reply
+export const repairPrompt = (error: string): string =>
+  `Your previous reply was rejected: ${error} Reply again for the same step with a single valid function call.`;
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import chalk from 'chalk';
+
+export type ReviewAction = 'accept' | 'reject' | 'accept_all';
+
+export interface ReviewDecision {
+  action: ReviewAction;
+  // Content to write; differs from the proposal when the user edited it
+  content: string;
+  reason?: string;
+}
+
+// Tool result sent to the model when the user turns a file change down
+export interface ReviewRejection {
+  error: 'rejected_by_user';
+  path: string;
+  message: string;
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+// Beyond this many line pairs the LCS table gets too large; fall back to replacing everything
+const MAX_DIFF_CELLS = 4_000_000;
+const CONTEXT_LINES = 3;
+
+const splitLines = (text: string): string[] => (text === '' ? [] : text.replace(/\n$/, '').split('\n'));
+
+const diffLines = (a: string[], b: string[]): DiffOp[] => {
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [...a.map(line => ({ type: '-' as const, line })), ...b.map(line => ({ type: '+' as const, line }))];
+  }
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j] ? lcs[(i + 1) * width + j + 1] + 1 : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: ' ', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ type: '-', line: a[i++] });
+    } else {
+      ops.push({ type: '+', line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: '-', line: a[i++] });
+  while (j < b.length) ops.push({ type: '+', line: b[j++] });
+  return ops;
+};
+
+// Unified diff (with @@ hunk headers) between two versions of a file; empty when they are identical
+export const createUnifiedDiff = (oldText: string, newText: string, fileName: string, isNew: boolean = false): string => {
+  if (oldText === newText) return '';
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+  const changed = ops.map((op, index) => (op.type !== ' ' ? index : -1)).filter(index => index >= 0);
+
+  // Group changes whose context windows overlap into hunks
+  const ranges: [number, number][] = [];
+  changed.forEach(index => {
+    const start = Math.max(0, index - CONTEXT_LINES);
+    const end = Math.min(ops.length - 1, index + CONTEXT_LINES);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else ranges.push([start, end]);
+  });
+
+  const lines = [`--- ${isNew ? '/dev/null' : `a/${fileName}`}`, `+++ b/${fileName}`];
+  ranges.forEach(([start, end]) => {
+    const before = ops.slice(0, start);
+    const oldStart = before.filter(op => op.type !== '+').length + 1;
+    const newStart = before.filter(op => op.type !== '-').length + 1;
+    const hunk = ops.slice(start, end + 1);
+    const oldCount = hunk.filter(op => op.type !== '+').length;
+    const newCount = hunk.filter(op => op.type !== '-').length;
+    lines.push(`@@ -${oldCount ? oldStart : oldStart - 1},${oldCount} +${newCount ? newStart : newStart - 1},${newCount} @@`);
+    hunk.forEach(op => lines.push(`${op.type}${op.line}`));
+  });
+  return lines.join('\n');
+};
+
+export const colorizeDiff = (diff: string): string =>
+  diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return chalk.gray(line);
+    })
+    .join('\n');
+
+// Opens the proposed content in $EDITOR (or vi/notepad) and returns what the user saved
+const editInEditor = (content: string, fileName: string): string => {
+  const tempFile = path.join(os.tmpdir(), `cursor2-${Date.now()}-${path.basename(fileName)}`);
+  fs.writeFileSync(tempFile, content);
+  try {
+    const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+    const result = spawnSync(editor, [tempFile], { stdio: 'inherit', shell: true });
+    if (result.status !== 0) throw new Error(`${editor} exited with status ${result.status}`);
+    return fs.readFileSync(tempFile, 'utf-8');
+  } finally {
+    fs.rmSync(tempFile, { force: true });
+  }
+};
+
+// Shows the diff for one file and asks the user what to do with it
+export const reviewFileChange = async (
+  fileName: string,
+  currentContent: string | null,
+  proposedContent: string,
+  ask: (question: string) => Promise<string>
+): Promise<ReviewDecision> => {
+  let content = proposedContent;
+  while (true) {
+    console.log(chalk.cyan(`========= ${currentContent === null ? 'New file' : 'Changes to'} ${fileName} =========`));
+    console.log(colorizeDiff(createUnifiedDiff(currentContent ?? '', content, fileName, currentContent === null)));
+    console.log(chalk.cyan('============================================='));
+    const answer = (await ask(chalk.cyan.bold('Apply this change? [a]ccept / [r]eject / [e]dit / accept [A]ll: '))).trim();
+
+    if (answer === 'A' || answer.toLowerCase() === 'all') return { action: 'accept_all', content };
+    if (['a', 'y', 'yes', 'accept'].includes(answer.toLowerCase())) return { action: 'accept', content };
+    if (['r', 'n', 'no', 'reject'].includes(answer.toLowerCase())) {
+      const reason = (await ask(chalk.cyan('Reason for rejecting (optional, sent to the model): '))).trim();
+      return { action: 'reject', content, reason: reason || undefined };
+    }
+    if (['e', 'edit'].includes(answer.toLowerCase())) {
+      try {
+        content = editInEditor(content, fileName);
+      } catch (error) {
+        console.log(chalk.red(`❌ Could not open an editor: ${(error as Error).message}`));
+      }
+      continue;
+    }
+    console.log(chalk.yellow('Please answer a, r, e or A.'));
+  }
+};
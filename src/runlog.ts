@@ -0,0 +1,102 @@
+import chalk from 'chalk';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { AgentEvent } from './events';
+
+// One line of a session's JSONL log
+export type LogEntry = AgentEvent & { time: string; session: string };
+
+// Longer strings in tool arguments and results are cut; file contents are covered by their hashes
+const LOG_VALUE_CHARS = 2000;
+// Characters of a value shown per line by the "log" command
+const SHORT_VALUE_CHARS = 120;
+
+export const hashContent = (content: string): string => createHash('sha256').update(content).digest('hex');
+
+const logFile = (logsDir: string, sessionId: string): string => path.join(logsDir, `${sessionId}.jsonl`);
+
+const compactValue = (value: unknown): unknown => {
+  if (typeof value === 'string') return value.length > LOG_VALUE_CHARS ? `${value.slice(0, LOG_VALUE_CHARS)}… (${value.length} characters)` : value;
+  if (Array.isArray(value)) return value.map(compactValue);
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, compactValue(entry)]));
+  return value;
+};
+
+// Appends one event to the session's log; the log is append-only so it can serve as an audit trail
+export const appendLogEntry = (logsDir: string, sessionId: string, event: AgentEvent): void => {
+  fs.mkdirSync(logsDir, { recursive: true });
+  const entry = { time: new Date().toISOString(), session: sessionId, ...(compactValue(event) as AgentEvent) };
+  fs.appendFileSync(logFile(logsDir, sessionId), `${JSON.stringify(entry)}\n`);
+};
+
+// Entries of a session's log in order; undefined when the session has no log. Damaged lines are skipped.
+export const readLog = (logsDir: string, sessionId: string): LogEntry[] | undefined => {
+  const file = logFile(logsDir, sessionId);
+  if (!fs.existsSync(file)) return undefined;
+  return fs
+    .readFileSync(file, 'utf-8')
+    .split('\n')
+    .flatMap(line => {
+      try {
+        return line.trim() ? [JSON.parse(line) as LogEntry] : [];
+      } catch {
+        return [];
+      }
+    });
+};
+
+const shorten = (value: unknown, full: boolean): string => {
+  const text = typeof value === 'string' ? value : JSON.stringify(value) ?? '';
+  return full || text.length <= SHORT_VALUE_CHARS ? text : `${text.slice(0, SHORT_VALUE_CHARS)}…`;
+};
+
+const shortHash = (hash: string | null | undefined): string => (hash ? hash.slice(0, 12) : 'none');
+
+const duration = (ms: number): string => (ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`);
+
+// Terminal rendering of one entry; full shows step contents, tool arguments and results in full (replay)
+export const formatEntry = (entry: LogEntry, full: boolean = false): string => {
+  const time = chalk.gray(entry.time.slice(11, 19));
+  const line = (text: string) => `${time} ${text}`;
+  switch (entry.type) {
+    case 'run_started':
+      return `${chalk.cyan('========= Request =========')}\n${line(chalk.white(`📋 ${entry.request}`))}`;
+    case 'intent': {
+      const targets = entry.intent.targetFiles.length ? ` (${entry.intent.targetFiles.join(', ')})` : '';
+      return line(chalk.cyan(`🧭 Intent: ${entry.intent.kind}${entry.intent.projectName ? ` → ${entry.intent.projectName}` : ''}${targets}`));
+    }
+    case 'model_call':
+      return line(chalk.gray(`🤖 Model call: ${duration(entry.durationMs)}, ${entry.usage.inputTokens} in / ${entry.usage.outputTokens} out${entry.estimated ? ' (estimated)' : ''}`));
+    case 'model_retry':
+      return line(chalk.yellow(`⚠️ ${entry.kind === 'http' ? 'Model call' : 'Step reply'} failed (attempt ${entry.attempt}): ${entry.error}`));
+    case 'step':
+      return line(`${chalk.cyan(`📍 ${entry.step}`)} ${chalk.white(shorten(entry.content, full))}`);
+    case 'tool_call': {
+      const elapsed = entry.durationMs !== undefined ? chalk.gray(` (${duration(entry.durationMs)})`) : '';
+      const details = full ? `\n    args: ${shorten(entry.args, true)}\n    result: ${shorten(entry.result, true)}` : ` → ${shorten(entry.result, false)}`;
+      return line(`${chalk.magenta(`🔧 ${entry.name}`)}${elapsed}${chalk.gray(details)}`);
+    }
+    case 'file_written': {
+      const icon = entry.action === 'created' ? '✅' : entry.action === 'patched' ? '🩹' : '🔄';
+      return line(`${chalk.green(`${icon} ${entry.action} ${entry.path}`)} ${chalk.gray(`${shortHash(entry.before)} → ${shortHash(entry.after)}`)}`);
+    }
+    case 'approval': {
+      const color = entry.decision === 'rejected' ? chalk.yellow : chalk.green;
+      const reason = entry.reason ? `: ${entry.reason}` : '';
+      return line(color(`${entry.decision === 'rejected' ? '👎' : '👍'} ${entry.decision} by ${entry.by}: ${entry.path || entry.subject}${reason}`));
+    }
+    case 'verification': {
+      const failed = entry.report.checks.filter(check => check.status === 'failed').length;
+      return line((failed ? chalk.red : chalk.green)(`🧪 Verification of ${entry.report.project}: ${entry.report.checks.length - failed} passed, ${failed} failed`));
+    }
+    case 'question':
+      return line(chalk.cyan(`❓ ${entry.question}`));
+    case 'question_answered':
+      return line(chalk.white(`   ↳ ${entry.answer}`));
+    case 'run_finished': {
+      const usage = entry.summary.usage ? `, ${entry.summary.usage.inputTokens} in / ${entry.summary.usage.outputTokens} out` : '';
+      return line(chalk.cyan(`🏁 ${entry.summary.status}: ${entry.summary.filesChanged.length} file(s) changed${usage}`));
+    }
+  }
+};
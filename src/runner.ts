@@ -0,0 +1,133 @@
+import { ChildProcess, spawn } from 'child_process';
+import chalk from 'chalk';
+
+export interface CommandResult {
+  command: string;
+  cwd: string;
+  exitCode: number | null;
+  timedOut: boolean;
+  // Stopped through RunOptions.signal, e.g. by Ctrl+C
+  aborted: boolean;
+  durationMs: number;
+  // Tail of the output, trimmed so it fits in the model's context
+  stdout: string;
+  stderr: string;
+}
+
+export interface RunOptions {
+  timeoutMs: number;
+  // Print output to the terminal as it arrives
+  stream?: boolean;
+  // Kills the command (and its children) when aborted
+  signal?: AbortSignal;
+}
+
+// Output kept per stream for the model; the terminal still shows everything
+const MAX_CAPTURED_CHARS = 8000;
+// Time a stopped command gets to exit after SIGTERM before its process group is killed
+const KILL_GRACE_MS = 2000;
+
+// Last MAX_CAPTURED_CHARS characters of a stream, trimmed as output arrives so noisy commands use bounded memory
+const createTail = () => {
+  let text = '';
+  let truncated = false;
+  return {
+    push(chunk: string) {
+      text += chunk;
+      if (text.length > MAX_CAPTURED_CHARS) {
+        text = text.slice(-MAX_CAPTURED_CHARS);
+        truncated = true;
+      }
+    },
+    toString: () => (truncated ? `...(truncated)\n${text}` : text),
+  };
+};
+
+// Commands run in their own process group, so they would outlive the agent if it quit while they run
+const running = new Set<ChildProcess>();
+
+// Signals the command's whole process group (the shell and everything it started)
+const killGroup = (child: ChildProcess, signal: NodeJS.Signals) => {
+  try {
+    if (process.platform !== 'win32' && child.pid) process.kill(-child.pid, signal);
+    else child.kill(signal);
+  } catch {
+    child.kill(signal);
+  }
+};
+
+process.on('exit', () => running.forEach(child => killGroup(child, 'SIGKILL')));
+
+// Runs a shell command in cwd, stopping it (and its children) when the timeout expires or the signal aborts.
+// A stopped command that ignores SIGTERM is killed after KILL_GRACE_MS.
+export const runCommand = (command: string, cwd: string, options: RunOptions): Promise<CommandResult> =>
+  new Promise(resolve => {
+    const start = Date.now();
+    const stdout = createTail();
+    const stderr = createTail();
+    let timedOut = false;
+    let aborted = false;
+    let settled = false;
+    if (options.signal?.aborted) {
+      resolve({ command, cwd, exitCode: null, timedOut, aborted: true, durationMs: 0, stdout: '', stderr: 'Cancelled before it started\n' });
+      return;
+    }
+    const child = spawn(command, { cwd, shell: true, detached: process.platform !== 'win32' });
+    running.add(child);
+
+    let killTimer: NodeJS.Timeout | undefined;
+    let exitTimer: NodeJS.Timeout | undefined;
+    const stop = () => {
+      if (killTimer) return;
+      killGroup(child, 'SIGTERM');
+      killTimer = setTimeout(() => killGroup(child, 'SIGKILL'), KILL_GRACE_MS);
+    };
+    const timer = setTimeout(() => {
+      timedOut = true;
+      stop();
+    }, options.timeoutMs);
+    const onAbort = () => {
+      aborted = true;
+      stop();
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.stdout.on('data', chunk => {
+      stdout.push(chunk.toString());
+      if (options.stream) process.stdout.write(chalk.gray(chunk.toString()));
+    });
+    child.stderr.on('data', chunk => {
+      stderr.push(chunk.toString());
+      if (options.stream) process.stdout.write(chalk.red(chunk.toString()));
+    });
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      clearTimeout(exitTimer);
+      options.signal?.removeEventListener('abort', onAbort);
+      running.delete(child);
+      if (error) stderr.push(`${error.message}\n`);
+      resolve({
+        command,
+        cwd,
+        exitCode,
+        timedOut,
+        aborted,
+        durationMs: Date.now() - start,
+        stdout: stdout.toString(),
+        stderr: stderr.toString(),
+      });
+    };
+    child.on('error', error => finish(null, error));
+    child.on('close', code => finish(code));
+    // A stopped command whose output pipes are held open by a process outside its group never closes them
+    child.on('exit', code => {
+      if (killTimer) exitTimer = setTimeout(() => finish(code), KILL_GRACE_MS);
+    });
+  });
+
+// A command that timed out or was cancelled never counts as a success, even a server that was running fine
+export const commandSucceeded = (result: CommandResult): boolean => result.exitCode === 0 && !result.timedOut && !result.aborted;
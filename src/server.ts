@@ -0,0 +1,256 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import express, { NextFunction, Request, Response } from 'express';
+import cors from 'cors';
+import { RunSummary } from './cli';
+import { AgentEvent, agentEvents, emitAgentEvent, stripAnsi } from './events';
+import { ProjectListing } from './intent';
+
+// What the server needs from the agent; implemented in index.ts
+export interface AgentApi {
+  root: string;
+  runRequest(request: string, projectName?: string): Promise<RunSummary>;
+  listProjects(): ProjectListing[];
+  readDirectory(dirPath: string): unknown;
+  readFile(filePath: string): unknown;
+  // Aborts the run in progress like Ctrl+C does
+  cancelRun(): void;
+}
+
+interface PendingQuestion {
+  id: string;
+  question: string;
+  resolve: (answer: string) => void;
+}
+
+interface Run {
+  id: string;
+  request: string;
+  status: 'running' | RunSummary['status'];
+  startedAt: string;
+  // Every event of the run, replayed to clients that subscribe late
+  events: AgentEvent[];
+  summary?: RunSummary;
+  question?: PendingQuestion;
+}
+
+// Who may use the API: runs write files and run commands, so a random page in the user's browser must not start or approve them
+export interface ServerAccess {
+  // Required as "Authorization: Bearer <token>" on every /api request
+  token: string;
+  // Browser origins allowed by CORS; other origins cannot read responses or send JSON requests
+  origins: string[];
+}
+
+export interface AgentServer {
+  server: http.Server;
+  // Stands in for the terminal prompt: publishes the question and waits for an answer over HTTP
+  ask(question: string): Promise<string>;
+}
+
+const runView = (run: Run) => ({
+  id: run.id,
+  request: run.request,
+  status: run.status,
+  startedAt: run.startedAt,
+  question: run.question && { id: run.question.id, question: run.question.question },
+  summary: run.summary,
+});
+
+// Finished runs kept for GET /api/runs; older ones are dropped along with their events
+const MAX_FINISHED_RUNS = 20;
+
+const sendEvent = (res: Response, event: AgentEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+
+export const createServerToken = (): string => crypto.randomBytes(24).toString('hex');
+
+// Constant-time comparison of the request's token with the session token. EventSource cannot send headers,
+// so the event stream also accepts it as ?token=.
+const hasToken = (req: Request, token: string): boolean => {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('authorization') || '');
+  const queryToken = req.method === 'GET' && /\/events$/.test(req.path) && typeof req.query.token === 'string' ? req.query.token : undefined;
+  const value = match?.[1] ?? queryToken;
+  if (!value) return false;
+  const given = Buffer.from(value);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+};
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]', '::1'];
+
+// Name in the Host header without the port, e.g. "localhost" or "[::1]"
+const requestHostname = (req: Request): string => (req.get('host') || '').replace(/:\d+$/, '').toLowerCase();
+
+// Serves the agent over HTTP. Runs share the agent's session, so only one runs at a time.
+export const startServer = (api: AgentApi, port: number, host: string, access: ServerAccess): Promise<AgentServer> => {
+  const runs = new Map<string, Run>();
+  let current: Run | undefined;
+  let runCount = 0;
+  let questionCount = 0;
+
+  // Maps keep insertion order, so the first finished runs are the oldest
+  const pruneRuns = () => {
+    const finished = [...runs.values()].filter(run => run !== current);
+    finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_RUNS)).forEach(run => runs.delete(run.id));
+  };
+
+  agentEvents.on('event', (event: AgentEvent) => current?.events.push(event));
+
+  const ask = (question: string): Promise<string> => {
+    const run = current;
+    if (!run) return Promise.resolve('');
+    return new Promise(resolve => {
+      const id = String(++questionCount);
+      run.question = { id, question: stripAnsi(question).trim(), resolve };
+      emitAgentEvent({ type: 'question', id, question: run.question.question });
+    });
+  };
+
+  const requireToken = (req: Request, res: Response, next: NextFunction) => {
+    if (hasToken(req, access.token)) next();
+    else res.status(401).json({ error: 'unauthorized', message: 'Send the token printed at startup as "Authorization: Bearer <token>"' });
+  };
+
+  // A server on a loopback address only answers to loopback names, so a page that points its own
+  // domain at 127.0.0.1 (DNS rebinding) is turned away
+  const requireLocalHost = (req: Request, res: Response, next: NextFunction) => {
+    if (!LOOPBACK_HOSTS.includes(host) || LOOPBACK_HOSTS.includes(requestHostname(req))) next();
+    else res.status(403).json({ error: 'forbidden_host', message: `Host "${req.get('host')}" is not allowed; use http://${host}:${port}` });
+  };
+
+  const app = express();
+  app.use(cors({ origin: access.origins }));
+  app.use('/api', requireLocalHost, requireToken);
+  app.use(express.json({ limit: '1mb' }));
+
+  app.post('/api/runs', (req: Request, res: Response) => {
+    const { request, projectName } = req.body || {};
+    if (typeof request !== 'string' || !request.trim()) {
+      res.status(400).json({ error: 'invalid_request', message: '"request" must be a non-empty string' });
+      return;
+    }
+    if (current) {
+      res.status(409).json({ error: 'run_in_progress', message: `Run ${current.id} is still in progress`, runId: current.id });
+      return;
+    }
+    const run: Run = { id: String(++runCount), request: request.trim(), status: 'running', startedAt: new Date().toISOString(), events: [] };
+    runs.set(run.id, run);
+    current = run;
+    api
+      .runRequest(run.request, typeof projectName === 'string' ? projectName : undefined)
+      .then(summary => {
+        run.summary = summary;
+        run.status = summary.status;
+      })
+      .catch(error => {
+        run.status = 'failed';
+        run.summary = { request: run.request, status: 'failed', steps: [], filesChanged: [] };
+        console.error(`Run ${run.id} failed: ${(error as Error).message}`);
+        // A completed run reports run_finished itself
+        emitAgentEvent({ type: 'run_finished', summary: run.summary });
+      })
+      .finally(() => {
+        run.question = undefined;
+        current = undefined;
+        pruneRuns();
+      });
+    res.status(202).json(runView(run));
+  });
+
+  app.get('/api/runs', (_req: Request, res: Response) => {
+    res.json([...runs.values()].reverse().map(runView));
+  });
+
+  app.get('/api/runs/:id', (req: Request, res: Response) => {
+    const run = runs.get(req.params.id);
+    if (!run) res.status(404).json({ error: 'not_found', message: `No run ${req.params.id}` });
+    else res.json(runView(run));
+  });
+
+  // Server-Sent Events: the run's events so far, then new ones until it finishes
+  app.get('/api/runs/:id/events', (req: Request, res: Response) => {
+    const run = runs.get(req.params.id);
+    if (!run) {
+      res.status(404).json({ error: 'not_found', message: `No run ${req.params.id}` });
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    run.events.forEach(event => sendEvent(res, event));
+    if (run.status !== 'running') {
+      res.end();
+      return;
+    }
+    const listener = (event: AgentEvent) => {
+      if (current !== run && event.type !== 'run_finished') return;
+      sendEvent(res, event);
+      if (event.type === 'run_finished') {
+        agentEvents.off('event', listener);
+        res.end();
+      }
+    };
+    agentEvents.on('event', listener);
+    req.on('close', () => agentEvents.off('event', listener));
+  });
+
+  app.post('/api/runs/:id/cancel', (req: Request, res: Response) => {
+    const run = runs.get(req.params.id);
+    if (!run || run !== current) {
+      res.status(404).json({ error: 'not_running', message: `Run ${req.params.id} is not in progress` });
+      return;
+    }
+    api.cancelRun();
+    // A run waiting for an answer would not notice the cancellation until it gets one
+    if (run.question) {
+      const { resolve } = run.question;
+      run.question = undefined;
+      resolve('no');
+    }
+    res.status(202).json(runView(run));
+  });
+
+  app.post('/api/runs/:id/answers', (req: Request, res: Response) => {
+    const run = runs.get(req.params.id);
+    const { questionId, answer } = req.body || {};
+    if (!run || !run.question) {
+      res.status(404).json({ error: 'no_question', message: `Run ${req.params.id} is not waiting for an answer` });
+      return;
+    }
+    if (questionId !== undefined && String(questionId) !== run.question.id) {
+      res.status(409).json({ error: 'stale_question', message: `Question ${questionId} was already answered; the current question is ${run.question.id}` });
+      return;
+    }
+    if (typeof answer !== 'string') {
+      res.status(400).json({ error: 'invalid_request', message: '"answer" must be a string, e.g. "yes" or "a"' });
+      return;
+    }
+    const { id, resolve } = run.question;
+    run.question = undefined;
+    emitAgentEvent({ type: 'question_answered', id, answer });
+    resolve(answer);
+    res.json({ id, answer });
+  });
+
+  app.get('/api/projects', (_req: Request, res: Response) => {
+    res.json({ root: api.root, projects: api.listProjects() });
+  });
+
+  app.get('/api/projects/:name/files', (req: Request, res: Response) => {
+    res.json(api.readDirectory(req.params.name));
+  });
+
+  app.get('/api/files', (req: Request, res: Response) => {
+    if (typeof req.query.path !== 'string') {
+      res.status(400).json({ error: 'invalid_request', message: '"path" query parameter is required' });
+      return;
+    }
+    const result = api.readFile(req.query.path);
+    if (typeof result === 'string') res.status(404).json({ error: 'not_found', message: result });
+    else if ((result as { error?: string }).error === 'workspace_violation') res.status(403).json(result);
+    else res.json(result);
+  });
+
+  return new Promise((resolve, reject) => {
+    const server = app.listen(port, host, () => resolve({ server, ask }));
+    server.on('error', reject);
+  });
+};
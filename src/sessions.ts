@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Message } from './providers';
+import { TokenUsage } from './tools';
+
+export interface SessionRequest {
+  text: string;
+  timestamp: string;
+}
+
+export interface SessionToolCall {
+  request: number;
+  step: string;
+  name: string;
+  args: unknown;
+  result: unknown;
+  timestamp: string;
+}
+
+export interface Session {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  projectName?: string;
+  projectType?: string;
+  requests: SessionRequest[];
+  contents: Message[];
+  toolCalls: SessionToolCall[];
+  filesTouched: string[];
+  // Tokens used by all requests; missing in sessions saved before usage was tracked
+  usage?: TokenUsage;
+}
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+  requests: number;
+  projectName?: string;
+}
+
+const newSessionId = (): string => {
+  const stamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  return `${stamp}-${Math.random().toString(16).slice(2, 6)}`;
+};
+
+export const createSession = (name?: string): Session => {
+  const now = new Date().toISOString();
+  return {
+    id: newSessionId(),
+    name: name || '',
+    createdAt: now,
+    updatedAt: now,
+    requests: [],
+    contents: [],
+    toolCalls: [],
+    filesTouched: [],
+    usage: { inputTokens: 0, outputTokens: 0 },
+  };
+};
+
+const sessionFile = (dir: string, id: string) => path.join(dir, `${id}.json`);
+
+export const saveSession = (dir: string, session: Session): void => {
+  fs.mkdirSync(dir, { recursive: true });
+  session.updatedAt = new Date().toISOString();
+  fs.writeFileSync(sessionFile(dir, session.id), JSON.stringify(session, null, 2));
+};
+
+// Newest first
+export const listSessions = (dir: string): SessionSummary[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs
+    .readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .map((file): SessionSummary | null => {
+      try {
+        const session: Session = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf-8'));
+        return {
+          id: session.id,
+          name: session.name,
+          updatedAt: session.updatedAt,
+          requests: session.requests.length,
+          projectName: session.projectName,
+        };
+      } catch {
+        return null;
+      }
+    })
+    .filter((summary): summary is SessionSummary => summary !== null)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+// Accepts a full id, a unique id prefix or an exact session name
+export const loadSession = (dir: string, idOrName: string): Session | null => {
+  const summaries = listSessions(dir);
+  const match =
+    summaries.find(summary => summary.id === idOrName) ||
+    summaries.find(summary => summary.name === idOrName) ||
+    (summaries.filter(summary => summary.id.startsWith(idOrName)).length === 1
+      ? summaries.find(summary => summary.id.startsWith(idOrName))
+      : undefined);
+  if (!match) return null;
+  return JSON.parse(fs.readFileSync(sessionFile(dir, match.id), 'utf-8'));
+};
+
+export const recordFileTouched = (session: Session, filePath: string): void => {
+  if (!session.filesTouched.includes(filePath)) session.filesTouched.push(filePath);
+};
@@ -0,0 +1,91 @@
+import chalk from 'chalk';
+import { StreamDelta } from './providers';
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+// Decoded value of the string property `key` in a JSON text that may still be
+// arriving, e.g. '{"step": "analyze", "content": "Found the pro' gives "Found the pro".
+// complete is false while the closing quote has not arrived yet.
+export const partialJsonString = (json: string, key: string): { value: string; complete: boolean } | undefined => {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(json);
+  if (!match) return undefined;
+  let value = '';
+  for (let i = match.index + match[0].length; i < json.length; i++) {
+    const char = json[i];
+    if (char === '"') return { value, complete: true };
+    if (char !== '\\') {
+      value += char;
+      continue;
+    }
+    // An escape sequence cut off by the end of the chunk is decoded once the rest arrives
+    const next = json[i + 1];
+    if (next === undefined) break;
+    if (next === 'u') {
+      const hex = json.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ESCAPES[next] ?? next;
+      i++;
+    }
+  }
+  return { value, complete: false };
+};
+
+export interface StepPreview {
+  onDelta: (delta: StreamDelta) => void;
+  // Ends the preview line; returns what was shown so it is not printed twice
+  finish: () => { step?: string; content?: string };
+}
+
+// Prints the step name and its content while a step reply streams in.
+// Works on the function call arguments or, for models that reply with plain JSON text, on the text.
+export const createStepPreview = (write: (text: string) => void = text => process.stdout.write(text)): StepPreview => {
+  let args = '';
+  let text = '';
+  let step: string | undefined;
+  let content = '';
+
+  const endLine = () => {
+    if (content) write('\n');
+  };
+
+  return {
+    onDelta: delta => {
+      if (delta.reset) {
+        endLine();
+        args = text = content = '';
+        step = undefined;
+        return;
+      }
+      args += delta.toolArgs || '';
+      text += delta.text || '';
+      const source = args || text;
+      if (!step) {
+        const found = partialJsonString(source, 'step');
+        if (!found?.complete) return;
+        step = found.value;
+        write(chalk.cyan(`📍 Step: ${step}\n`));
+      }
+      const found = partialJsonString(source, 'content');
+      if (!found || found.value.length <= content.length) return;
+      write(chalk.white(`${content ? '' : '📝 '}${found.value.slice(content.length)}`));
+      content = found.value;
+    },
+    finish: () => {
+      endLine();
+      return { step, content: content || undefined };
+    },
+  };
+};
+
+// Checks a streamed file body before it may be written: an empty or cut-off
+// reply is an error, and a reply wrapped in a single Markdown code fence is unwrapped.
+export const assembleFileContent = (text: string, truncated?: boolean): string => {
+  if (truncated) throw new Error(`the model stopped at its output limit after ${text.length} characters`);
+  const fenced = /^\s*```[^\n`]*\n([\s\S]*?)\n?```\s*$/.exec(text);
+  const content = fenced && !fenced[1].includes('\n```') ? `${fenced[1]}\n` : text;
+  if (!content.trim()) throw new Error('the model returned no content');
+  return content;
+};
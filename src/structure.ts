@@ -0,0 +1,69 @@
+// Answers understood by the structure editor shown before a project is created
+export type StructureCommand =
+  | { kind: 'approve' }
+  | { kind: 'abort' }
+  | { kind: 'add'; paths: string[] }
+  | { kind: 'remove'; targets: string[] }
+  | { kind: 'rename'; from: string; to: string }
+  // Anything else is sent to the model, e.g. "add a tests folder" or "use TypeScript"
+  | { kind: 'feedback'; text: string };
+
+// A file path ("src/app.ts", "tests/") rather than a word of a sentence
+const looksLikePath = (token: string): boolean => /[./]/.test(token);
+const isReference = (token: string): boolean => /^\d+$/.test(token) || looksLikePath(token);
+
+export const parseStructureCommand = (answer: string): StructureCommand | null => {
+  const text = answer.trim();
+  if (!text) return null;
+  if (/^(y|yes|ok|approve)$/i.test(text)) return { kind: 'approve' };
+  if (/^(n|no|abort|cancel)$/i.test(text)) return { kind: 'abort' };
+  const [word, ...rest] = text.split(/[\s,]+/);
+  const verb = word.toLowerCase();
+  if ((verb === 'add' || verb === '+') && rest.length > 0 && rest.every(looksLikePath)) return { kind: 'add', paths: rest };
+  if (['remove', 'rm', 'delete', '-'].includes(verb) && rest.length > 0 && rest.every(isReference)) return { kind: 'remove', targets: rest };
+  const targets = rest.filter(token => token.toLowerCase() !== 'to');
+  if (['rename', 'mv', 'move'].includes(verb) && targets.length === 2 && isReference(targets[0]) && looksLikePath(targets[1])) {
+    return { kind: 'rename', from: targets[0], to: targets[1] };
+  }
+  return { kind: 'feedback', text };
+};
+
+// Folder the entries of a structure start with, e.g. "chaicode/todo-app/" or "todo-app/"
+export const projectPrefix = (structure: string[], rootDir: string, projectName?: string): string => {
+  const name = projectName || structure[0]?.split('/').find(segment => segment !== rootDir);
+  if (!name) return '';
+  return structure.some(entry => entry.startsWith(`${rootDir}/${name}/`)) ? `${rootDir}/${name}/` : `${name}/`;
+};
+
+// Entry matched by a 1-based number, the full path or a unique path suffix ("style.css")
+const findEntry = (structure: string[], reference: string): number => {
+  if (/^\d+$/.test(reference)) {
+    const index = parseInt(reference, 10) - 1;
+    if (index >= 0 && index < structure.length) return index;
+    throw new Error(`there is no entry ${reference}`);
+  }
+  const exact = structure.indexOf(reference);
+  if (exact !== -1) return exact;
+  const matches = structure.filter(entry => entry.endsWith(`/${reference.replace(/^\.?\//, '')}`));
+  if (matches.length === 1) return structure.indexOf(matches[0]);
+  throw new Error(matches.length ? `"${reference}" matches ${matches.length} entries; use its number` : `"${reference}" is not in the structure`);
+};
+
+// Applies an add, remove or rename; new paths are placed inside the project folder. Throws on unknown entries.
+export const editStructure = (structure: string[], command: StructureCommand, prefix: string): string[] => {
+  const inProject = (file: string) => (file.startsWith(prefix) ? file : `${prefix}${file.replace(/^\.?\//, '')}`);
+  switch (command.kind) {
+    case 'add':
+      return [...structure, ...command.paths.map(inProject).filter(file => !structure.includes(file))];
+    case 'remove': {
+      const indexes = command.targets.map(target => findEntry(structure, target));
+      return structure.filter((_, index) => !indexes.includes(index));
+    }
+    case 'rename': {
+      const index = findEntry(structure, command.from);
+      return structure.map((entry, position) => (position === index ? inProject(command.to) : entry));
+    }
+    default:
+      return structure;
+  }
+};
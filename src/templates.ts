@@ -0,0 +1,292 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonSchema, validateArgs } from './tools';
+
+export interface TemplateStep {
+  text: string;
+  // Shown as a bash block under the step
+  command?: string;
+}
+
+// A kind of project the agent knows how to set up: stack, baseline files, commands and execute.md content.
+// Strings may use {{projectName}} and {{root}}.
+export interface ProjectTemplate {
+  name: string;
+  description: string;
+  stack: string[];
+  // Words in the request or project type that select this template
+  keywords: string[];
+  // Baseline files, relative to the project folder
+  structure: string[];
+  commands: { install?: string; run?: string; test?: string };
+  // Custom "How to Run" steps; derived from commands when missing
+  steps?: TemplateStep[];
+  dependencies: string[];
+  compatibility: string[];
+  issues: string[];
+  // "built-in" or the file the template was loaded from
+  source: string;
+}
+
+export interface TemplateRegistry {
+  templates: ProjectTemplate[];
+  // Template files that could not be loaded, with the reason
+  errors: string[];
+}
+
+export const GENERIC_TEMPLATE = 'generic';
+
+const stringList = (description: string): JsonSchema => ({ type: 'array', description, items: { type: 'string' } });
+
+const templateSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    description: { type: 'string' },
+    stack: stringList('Languages, frameworks and tools'),
+    keywords: stringList('Words that select the template'),
+    structure: stringList('Baseline files relative to the project folder'),
+    commands: {
+      type: 'object',
+      properties: { install: { type: 'string' }, run: { type: 'string' }, test: { type: 'string' } },
+    },
+    steps: {
+      type: 'array',
+      items: { type: 'object', properties: { text: { type: 'string' }, command: { type: 'string' } }, required: ['text'] },
+    },
+    dependencies: stringList('execute.md dependency notes'),
+    compatibility: stringList('execute.md compatibility notes'),
+    issues: stringList('execute.md potential issues'),
+  },
+  required: ['name', 'description', 'structure'],
+};
+
+const BUILT_IN_TEMPLATES: Omit<ProjectTemplate, 'source'>[] = [
+  {
+    name: 'node-express',
+    description: 'Node.js HTTP API with Express',
+    stack: ['Node.js', 'Express'],
+    keywords: ['express', 'node api', 'node.js api', 'node server', 'node.js server', 'rest api in node'],
+    structure: ['package.json', 'server.js', 'routes/index.js', 'README.md', 'execute.md'],
+    commands: { install: 'npm install', run: 'npm start', test: 'npm test' },
+    dependencies: ['**Node.js**: Version 18 or higher (includes npm). Download from https://nodejs.org/.', '**Express**: Installed via npm from `package.json`.'],
+    compatibility: ['Works on Windows, macOS, and Linux.', 'The API listens on http://localhost:3000 unless `PORT` is set.'],
+    issues: [
+      '**Port Conflict**: If port 3000 is in use, start the server with another port, e.g. `PORT=3001 npm start`.',
+      '**Dependency Errors**: If `npm install` fails, delete `node_modules` and `package-lock.json`, then run `npm install` again.',
+    ],
+  },
+  {
+    name: 'fastapi',
+    description: 'Python HTTP API with FastAPI and Uvicorn',
+    stack: ['Python', 'FastAPI', 'Uvicorn'],
+    keywords: ['fastapi', 'python api', 'rest api in python', 'uvicorn'],
+    structure: ['main.py', 'requirements.txt', 'README.md', 'execute.md'],
+    commands: { install: 'pip install -r requirements.txt', run: 'uvicorn main:app --reload', test: 'pytest' },
+    dependencies: ['**Python**: Version 3.8 or higher.', '**FastAPI** and **Uvicorn**: Installed from `requirements.txt`.'],
+    compatibility: ['Works on Windows, macOS, and Linux.', 'Interactive API docs are served at http://localhost:8000/docs.'],
+    issues: [
+      '**Virtual Environment**: Create one with `python -m venv .venv` and activate it before installing to keep dependencies isolated.',
+      '**Port Conflict**: If port 8000 is in use, add `--port 8001` to the run command.',
+    ],
+  },
+  {
+    name: 'vite-ts',
+    description: 'Vite front-end app written in TypeScript',
+    stack: ['TypeScript', 'Vite'],
+    keywords: ['vite', 'typescript'],
+    structure: ['package.json', 'tsconfig.json', 'index.html', 'src/main.ts', 'src/style.css', 'README.md', 'execute.md'],
+    commands: { install: 'npm install', run: 'npm run dev', test: 'npx tsc --noEmit' },
+    dependencies: ['**Node.js**: Version 18 or higher (includes npm). Download from https://nodejs.org/.', '**Vite** and **TypeScript**: Installed via npm from `package.json`.'],
+    compatibility: ['Works on Windows, macOS, and Linux.', 'The dev server runs on http://localhost:5173.'],
+    issues: [
+      '**Port Conflict**: If port 5173 is in use, Vite picks the next free port and prints it.',
+      '**Type Errors**: Run `npx tsc --noEmit` to see TypeScript errors that the dev server does not report.',
+    ],
+  },
+  {
+    name: 'go-cli',
+    description: 'Command-line program written in Go',
+    stack: ['Go'],
+    keywords: ['golang', 'go cli', 'go program', 'go tool', 'in go'],
+    structure: ['go.mod', 'main.go', 'README.md', 'execute.md'],
+    commands: { run: 'go run .', test: 'go test ./...' },
+    dependencies: ['**Go**: Version 1.21 or higher. Download from https://go.dev/dl/.'],
+    compatibility: ['Works on Windows, macOS, and Linux.', 'Build a standalone binary with `go build`.'],
+    issues: ['**Go Not Installed**: If `go` is not found, install Go and make sure it is on your PATH.', '**Module Errors**: Run `go mod tidy` if imports cannot be resolved.'],
+  },
+  {
+    name: 'react',
+    description: 'React single-page app styled with Tailwind CSS',
+    stack: ['JavaScript', 'React', 'Tailwind CSS'],
+    keywords: ['react', 'jsx'],
+    structure: ['package.json', 'public/index.html', 'src/index.js', 'src/App.js', 'README.md', 'execute.md'],
+    commands: { install: 'npm install', run: 'npm start', test: 'npm test' },
+    steps: [
+      { text: 'Open your terminal.' },
+      { text: 'Navigate to the project directory:', command: 'cd {{root}}/{{projectName}}' },
+      { text: 'Install dependencies:', command: 'npm install' },
+      { text: 'Start the development server:', command: 'npm start' },
+      { text: 'Open http://localhost:3000 in your browser.' },
+    ],
+    dependencies: [
+      '**Node.js**: Version 14 or higher (includes npm). Download from https://nodejs.org/.',
+      '**React**: Included in the project (installed via npm).',
+      '**Tailwind CSS**: Assumed to be set up in the project (via npm).',
+    ],
+    compatibility: ['Works on Windows, macOS, and Linux.', 'Requires Node.js and npm to be installed.', 'Best viewed in modern browsers (Chrome, Firefox, Edge).'],
+    issues: [
+      "**Node.js Not Installed**: If Node.js isn't installed, you'll see a \"command not found\" error. Install Node.js and npm.",
+      '**Port Conflict**: If port 3000 is in use, the React dev server will prompt you to use a different port.',
+      '**Dependency Errors**: If `npm install` fails, delete the `node_modules` folder and `package-lock.json` file, then run `npm install` again.',
+    ],
+  },
+  {
+    name: 'html',
+    description: 'Static web page with HTML, CSS and JavaScript',
+    stack: ['HTML', 'CSS', 'JavaScript', 'Tailwind CSS (CDN)'],
+    keywords: ['html', 'static site', 'web page', 'landing page', 'website'],
+    structure: ['index.html', 'style.css', 'script.js', 'README.md', 'execute.md'],
+    commands: {},
+    steps: [
+      { text: 'Navigate to the project directory: `{{root}}/{{projectName}}`' },
+      { text: 'Open `index.html` in a web browser (e.g., Chrome, Firefox) by double-clicking the file or right-clicking and selecting "Open with" your browser.' },
+      { text: 'Or serve it with live reload: type `preview {{projectName}}` in the agent (or run `cursor2 preview {{projectName}}`) and open the URL it prints. The page refreshes whenever the project changes.' },
+    ],
+    dependencies: ['None required. This is a static HTML project that runs directly in a browser.'],
+    compatibility: ['Works on all modern browsers (Chrome, Firefox, Edge, Safari).', 'No additional software needed.'],
+    issues: [
+      '**Browser Compatibility**: Ensure your browser is up to date to support modern HTML5/CSS3 features.',
+      "**File Path Issues**: If images, styles or scripts don't load, check that their paths are relative to the HTML file; the page works both opened from the file system and through `cursor2 preview {{projectName}}`.",
+    ],
+  },
+  {
+    name: 'python',
+    description: 'Python script run from the terminal',
+    stack: ['Python'],
+    keywords: ['python', 'py script'],
+    structure: ['{{projectName}}.py', 'README.md', 'execute.md'],
+    commands: { run: 'python {{projectName}}.py' },
+    steps: [
+      { text: 'Open your terminal.' },
+      { text: 'Navigate to the project directory:', command: 'cd {{root}}/{{projectName}}' },
+      { text: 'Run the script:', command: 'python {{projectName}}.py' },
+    ],
+    dependencies: ['**Python**: Version 3.6 or higher is required.', 'No additional libraries are needed for this basic script.'],
+    compatibility: ['Works on Windows, macOS, and Linux.', 'Requires Python to be installed (download from https://www.python.org/downloads/).'],
+    issues: [
+      "**Python Not Installed**: If Python isn't installed, you'll see a \"command not found\" error. Install Python and ensure it's added to your PATH.",
+      "**Version Mismatch**: Ensure you're using Python 3 (run `python --version` or `python3 --version`).",
+      "**File Path Issues**: Ensure you're in the correct directory when running the script.",
+    ],
+  },
+  {
+    name: GENERIC_TEMPLATE,
+    description: 'Any other kind of project; instructions live in README.md',
+    stack: [],
+    keywords: [],
+    structure: ['README.md', 'execute.md'],
+    commands: {},
+    steps: [
+      { text: 'Navigate to the project directory: `{{root}}/{{projectName}}`' },
+      { text: 'Refer to the specific instructions in the `README.md` file for running the project.' },
+    ],
+    dependencies: ['Refer to the `README.md` file for any required dependencies.'],
+    compatibility: ['Refer to the `README.md` file for compatibility information.'],
+    issues: [
+      '**Missing Dependencies**: Ensure all required software and libraries are installed as per the `README.md`.',
+      '**Environment Setup**: Check your environment configuration if the project fails to run.',
+    ],
+  },
+];
+
+// User templates: CURSOR2_TEMPLATES_DIR (default ~/.cursor2/templates) plus the workspace's own folder
+export const templateDirs = (workspaceTemplatesDir: string): string[] => [
+  process.env.CURSOR2_TEMPLATES_DIR || path.join(os.homedir(), '.cursor2', 'templates'),
+  workspaceTemplatesDir,
+];
+
+// Built-in templates followed by *.json files from dirs; a user template replaces a built-in of the same name
+export const loadTemplates = (dirs: string[]): TemplateRegistry => {
+  const templates: ProjectTemplate[] = BUILT_IN_TEMPLATES.map(template => ({ ...template, source: 'built-in' }));
+  const errors: string[] = [];
+  dirs
+    .filter(dir => fs.existsSync(dir) && fs.statSync(dir).isDirectory())
+    .forEach(dir =>
+      fs
+        .readdirSync(dir)
+        .filter(file => file.endsWith('.json'))
+        .sort()
+        .forEach(file => {
+          const source = path.join(dir, file);
+          try {
+            const raw = JSON.parse(fs.readFileSync(source, 'utf-8'));
+            const problems = validateArgs(templateSchema, raw, 'template');
+            if (problems.length > 0) throw new Error(problems.join('; '));
+            const template: ProjectTemplate = { stack: [], keywords: [], commands: {}, dependencies: [], compatibility: [], issues: [], ...raw, source };
+            const existing = templates.findIndex(candidate => candidate.name === template.name);
+            // Keep user templates ahead of the generic fallback so their keywords win ties
+            if (existing >= 0) templates[existing] = template;
+            else templates.splice(templates.length - 1, 0, template);
+          } catch (error) {
+            errors.push(`${source}: ${(error as Error).message}`);
+          }
+        })
+    );
+  return { templates, errors };
+};
+
+export const findTemplate = (templates: ProjectTemplate[], name: string): ProjectTemplate | undefined =>
+  templates.find(template => template.name.toLowerCase() === name.trim().toLowerCase());
+
+// Template whose keywords appear most often in the text (e.g. project type plus request); generic when none match
+export const pickTemplate = (templates: ProjectTemplate[], text: string): ProjectTemplate => {
+  const haystack = ` ${text.toLowerCase().replace(/[^a-z0-9.+#]+/g, ' ')} `;
+  let best: ProjectTemplate | undefined;
+  let bestScore = 0;
+  templates.forEach(template => {
+    const score = template.keywords.filter(keyword => haystack.includes(` ${keyword.toLowerCase()} `)).length;
+    if (score > bestScore) {
+      best = template;
+      bestScore = score;
+    }
+  });
+  return best || findTemplate(templates, GENERIC_TEMPLATE)!;
+};
+
+const fill = (text: string, projectName: string, root: string): string =>
+  text.replace(/\{\{projectName\}\}/g, projectName).replace(/\{\{root\}\}/g, root);
+
+export const templateStructure = (template: ProjectTemplate, projectName: string, root: string): string[] =>
+  template.structure.map(file => `${root}/${projectName}/${fill(file, projectName, root)}`);
+
+export const templateCommands = (template: ProjectTemplate, projectName: string, root: string): ProjectTemplate['commands'] =>
+  Object.fromEntries(Object.entries(template.commands).map(([key, command]) => [key, fill(command!, projectName, root)]));
+
+// Steps shown when a template declares commands but no custom steps
+const defaultSteps = (template: ProjectTemplate): TemplateStep[] => [
+  { text: 'Open your terminal.' },
+  { text: 'Navigate to the project directory:', command: 'cd {{root}}/{{projectName}}' },
+  ...(template.commands.install ? [{ text: 'Install dependencies:', command: template.commands.install }] : []),
+  ...(template.commands.run ? [{ text: 'Run the project:', command: template.commands.run }] : []),
+  ...(template.commands.test ? [{ text: 'Run the tests:', command: template.commands.test }] : []),
+];
+
+export const renderExecuteMd = (template: ProjectTemplate, projectType: string, projectName: string, root: string): string => {
+  const bullets = (items: string[]) => items.map(item => `- ${item}`).join('\n');
+  const steps = (template.steps || defaultSteps(template))
+    .map((step, index) => {
+      const block = step.command ? `\n  \`\`\`bash\n  ${step.command}\n  \`\`\`` : '';
+      return `- **Step ${index + 1}**: ${step.text}${block}`;
+    })
+    .join('\n');
+
+  let content = `# Execution Instructions for ${projectName}\n\n`;
+  content += `This document provides detailed instructions on how to run your ${projectType} project, along with necessary dependencies, compatibility information, and potential issues you might encounter.\n\n`;
+  content += `## How to Run the Project\n\n${steps}\n\n`;
+  content += `### Dependencies\n${bullets(template.dependencies)}\n\n`;
+  content += `### Compatibility\n${bullets(template.compatibility)}\n\n`;
+  content += `### Potential Issues\n${bullets(template.issues)}\n`;
+  return fill(content, projectName, root);
+};
@@ -0,0 +1,146 @@
+export type StepType = 'initialization' | 'analyze' | 'generate_structure' | 'generate_files' | 'final_result';
+
+export const STEP_TYPES: StepType[] = ['initialization', 'analyze', 'generate_structure', 'generate_files', 'final_result'];
+
+export interface StepResponse {
+  step: StepType;
+  content: string;
+  function: string | null;
+  args: any;
+}
+
+// The subset of JSON Schema understood by Gemini, OpenAI and Ollama function declarations
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+}
+
+export interface ToolSchema {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+export interface ToolCall {
+  name: string;
+  args: unknown;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ModelReply {
+  text: string;
+  toolCall?: ToolCall;
+  // Reported by the endpoint when available
+  usage?: TokenUsage;
+  // The endpoint stopped at its output token limit, so the text is incomplete
+  truncated?: boolean;
+}
+
+// Name of the function the model calls for steps that need no tool
+export const REPORT_STEP = 'report_step';
+
+// Every declared function carries the step envelope next to its own arguments
+const envelopeProperties: Record<string, JsonSchema> = {
+  step: { type: 'string', enum: STEP_TYPES, description: 'The step being performed' },
+  content: { type: 'string', description: 'Short explanation of what this step does' },
+};
+
+export const withStepEnvelope = (tool: ToolSchema): ToolSchema => ({
+  ...tool,
+  parameters: {
+    ...tool.parameters,
+    properties: { ...envelopeProperties, ...tool.parameters.properties },
+    required: ['step', 'content', ...(tool.parameters.required || [])],
+  },
+});
+
+export const reportStepSchema: ToolSchema = {
+  name: REPORT_STEP,
+  description: 'Reports a step that does not need any tool (e.g. initialization, final_result, skipped steps)',
+  parameters: { type: 'object', properties: {} },
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+export const validateArgs = (schema: JsonSchema, value: unknown, at: string = 'args'): string[] => {
+  const actual = typeOf(value);
+  const matches = schema.type === actual || (schema.type === 'number' && actual === 'integer');
+  if (!matches) return [`${at} must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}, got ${actual}`];
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    return [`${at} must be one of ${schema.enum.map(option => `"${option}"`).join(', ')}`];
+  }
+  if (schema.type === 'array' && schema.items) {
+    return (value as unknown[]).flatMap((item, index) => validateArgs(schema.items!, item, `${at}[${index}]`));
+  }
+  if (schema.type === 'object') {
+    const record = value as Record<string, unknown>;
+    const errors = (schema.required || [])
+      .filter(key => record[key] === undefined || record[key] === null)
+      .map(key => `${at}.${key} is required`);
+    Object.entries(schema.properties || {}).forEach(([key, propertySchema]) => {
+      if (record[key] !== undefined && record[key] !== null) errors.push(...validateArgs(propertySchema, record[key], `${at}.${key}`));
+    });
+    return errors;
+  }
+  return [];
+};
+
+const stripFences = (text: string): string =>
+  text
+    .replace(/^```json\s*|\s*```$/gm, '')
+    .replace(/^```.*$/gm, '')
+    .trim();
+
+// Models that ignore the function declarations still answer with the legacy
+// { step, content, function, args } JSON in plain text.
+const callFromText = (text: string): ToolCall => {
+  const parsed = JSON.parse(stripFences(text));
+  if (typeOf(parsed) !== 'object') throw new Error('reply is not a JSON object');
+  const { function: name, args, ...envelope } = parsed;
+  return { name: name || REPORT_STEP, args: { ...envelope, ...(typeOf(args) === 'object' ? args : {}) } };
+};
+
+// Turns a model reply into a validated StepResponse, or a message describing
+// why the call was rejected so it can be sent back to the model.
+export const parseStepReply = (reply: ModelReply, tools: ToolSchema[]): { step?: StepResponse; error?: string } => {
+  let call: ToolCall;
+  try {
+    call = reply.toolCall || callFromText(reply.text);
+  } catch (error) {
+    return { error: `Could not read a function call from your reply (${(error as Error).message}). Call exactly one of the declared functions.` };
+  }
+
+  const tool = tools.find(candidate => candidate.name === call.name);
+  if (!tool) {
+    return { error: `Unknown function "${call.name}". Available functions: ${tools.map(candidate => candidate.name).join(', ')}.` };
+  }
+
+  const errors = validateArgs(tool.parameters, call.args);
+  if (errors.length > 0) {
+    return { error: `Invalid arguments for ${call.name}: ${errors.join('; ')}.` };
+  }
+
+  const { step, content, ...args } = call.args as Record<string, any>;
+  return {
+    step: {
+      step,
+      content,
+      function: call.name === REPORT_STEP ? null : call.name,
+      args: call.name === REPORT_STEP ? null : args,
+    },
+  };
+};
@@ -0,0 +1,223 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CommandResult, runCommand } from './runner';
+
+export type CheckStatus = 'passed' | 'failed' | 'skipped';
+
+// One check of the verification stage, e.g. "node --check" on one file or the project's tests
+export interface VerificationCheck {
+  name: string;
+  target: string;
+  status: CheckStatus;
+  // Why it failed or was skipped, trimmed for the terminal and the model
+  details?: string;
+}
+
+export interface VerificationReport {
+  project: string;
+  passed: boolean;
+  checks: VerificationCheck[];
+}
+
+export interface VerifyOptions {
+  // Limit for every command the stage runs (compilers, test runners)
+  timeoutMs: number;
+  // Asked before a test command runs, since tests execute the generated code; declined tests are skipped
+  approveTests(command: string): Promise<boolean>;
+}
+
+const MAX_DETAILS_CHARS = 1500;
+const PYTHON = process.platform === 'win32' ? 'python' : 'python3';
+// Tags that never have a closing tag, and tags whose closing tag HTML allows to leave out
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+const OPTIONAL_CLOSE_TAGS = new Set(['html', 'head', 'body', 'p', 'li', 'dt', 'dd', 'tr', 'td', 'th', 'thead', 'tbody', 'tfoot', 'option', 'colgroup']);
+const JSX_DEPENDENCIES = ['react', 'preact', 'solid-js', '@babel/preset-react'];
+// An element or fragment where an expression starts, e.g. "return (<App />", "render(<div>" or "() => <main>"
+const JSX_PATTERN = /(?:^|=>|[=(,:?&|]|\breturn)\s*<(?:[A-Za-z][\w.]*[\s/>]|>)/m;
+const NPM_NAME = /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+const trimDetails = (text: string): string => {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_DETAILS_CHARS ? `${trimmed.slice(0, MAX_DETAILS_CHARS)}\n...(truncated)` : trimmed;
+};
+
+const quote = (file: string): string => JSON.stringify(file);
+
+// A command that is not installed is skipped rather than counted as a failure of the project
+const missingTool = (result: CommandResult): boolean =>
+  result.exitCode === 127 || /command not found|is not recognized as an internal|ENOENT|No module named (pytest|py_compile)/.test(result.stderr);
+
+const commandCheck = async (name: string, target: string, command: string, cwd: string, options: VerifyOptions): Promise<VerificationCheck> => {
+  const result = await runCommand(command, cwd, { timeoutMs: options.timeoutMs });
+  if (missingTool(result)) return { name, target, status: 'skipped', details: `${command.split(' ')[0]} is not available` };
+  if (result.timedOut) return { name, target, status: 'failed', details: `${command} did not finish within ${options.timeoutMs / 1000}s` };
+  if (result.exitCode === 0) return { name, target, status: 'passed' };
+  return { name, target, status: 'failed', details: trimDetails(result.stderr || result.stdout || `${command} exited with code ${result.exitCode}`) };
+};
+
+const testCheck = async (name: string, command: string, cwd: string, options: VerifyOptions): Promise<VerificationCheck> => {
+  if (!(await options.approveTests(command))) return { name, target: '.', status: 'skipped', details: 'not approved' };
+  return commandCheck(name, '.', command, cwd, options);
+};
+
+const isExternalReference = (ref: string): boolean => /^([a-z][a-z0-9+.-]*:|\/\/|#|\{\{|\$\{)/i.test(ref) || ref.trim() === '';
+
+// Structural HTML problems a browser silently tolerates: unbalanced tags and missing local assets
+const validateHtml = (html: string, filePath: string, projectDir: string): string[] => {
+  const problems: string[] = [];
+  if (!/^\s*<!doctype html>/i.test(html)) problems.push('missing <!DOCTYPE html> declaration');
+  const markup = html.replace(/<!--[\s\S]*?-->/g, '').replace(/<(script|style|textarea|pre)\b([^>]*)>[\s\S]*?<\/\1\s*>/gi, '<$1$2></$1>');
+  const stack: string[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][\w-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+  for (let match = tagPattern.exec(markup); match; match = tagPattern.exec(markup)) {
+    const [, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+    if (VOID_TAGS.has(name) || (!closing && attributes.trim().endsWith('/'))) continue;
+    if (!closing) {
+      stack.push(name);
+      continue;
+    }
+    const open = stack.lastIndexOf(name);
+    if (open === -1) {
+      problems.push(`unexpected closing tag </${name}>`);
+      continue;
+    }
+    stack.splice(open).slice(1).filter(tag => !OPTIONAL_CLOSE_TAGS.has(tag)).forEach(tag => problems.push(`<${tag}> is not closed before </${name}>`));
+  }
+  stack.filter(tag => !OPTIONAL_CLOSE_TAGS.has(tag)).forEach(tag => problems.push(`<${tag}> is never closed`));
+
+  const refPattern = /\s(?:src|href)\s*=\s*["']([^"']*)["']/gi;
+  for (let match = refPattern.exec(markup); match; match = refPattern.exec(markup)) {
+    const ref = match[1].split(/[?#]/)[0];
+    if (isExternalReference(match[1]) || !ref) continue;
+    // Root-relative paths are served from the project folder, or its public/ folder with bundlers like Vite
+    const candidates = ref.startsWith('/') ? [path.join(projectDir, ref), path.join(projectDir, 'public', ref)] : [path.join(path.dirname(filePath), ref)];
+    if (!candidates.some(candidate => fs.existsSync(candidate))) problems.push(`referenced file "${match[1]}" does not exist`);
+  }
+  return problems;
+};
+
+// package.json fields npm rejects or that point at files that are not there
+const validatePackageJson = (data: any, projectDir: string): string[] => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return ['package.json must contain a JSON object'];
+  const problems: string[] = [];
+  if (data.name !== undefined && (typeof data.name !== 'string' || !NPM_NAME.test(data.name))) {
+    problems.push(`"name" must be a lowercase npm package name, got ${JSON.stringify(data.name)}`);
+  }
+  if (data.version !== undefined && !/^\d+\.\d+\.\d+(?:[-+].*)?$/.test(String(data.version))) {
+    problems.push(`"version" must be a semantic version like 1.0.0, got ${JSON.stringify(data.version)}`);
+  }
+  ['scripts', 'dependencies', 'devDependencies', 'peerDependencies'].forEach(field => {
+    const value = data[field];
+    if (value === undefined) return;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) problems.push(`"${field}" must be an object`);
+    else Object.entries(value).filter(([, entry]) => typeof entry !== 'string').forEach(([key]) => problems.push(`"${field}.${key}" must be a string`));
+  });
+  if (typeof data.main === 'string' && !fs.existsSync(path.join(projectDir, data.main))) problems.push(`"main" points to ${data.main}, which does not exist`);
+  return problems;
+};
+
+const readPackageJson = (projectDir: string): any => {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(projectDir, 'package.json'), 'utf-8'));
+  } catch {
+    return null;
+  }
+};
+
+// node --check cannot parse JSX, which React-style projects write into plain .js files
+const usesJsx = (source: string, projectDir: string): boolean => {
+  const pkg = readPackageJson(projectDir);
+  const dependencies = Object.keys({ ...pkg?.dependencies, ...pkg?.devDependencies });
+  return dependencies.some(name => JSX_DEPENDENCIES.includes(name)) || JSX_PATTERN.test(source);
+};
+
+const fileCheck = async (file: string, projectDir: string, options: VerifyOptions): Promise<VerificationCheck | null> => {
+  const absolute = path.join(projectDir, file);
+  if (!fs.existsSync(absolute)) return null;
+  const extension = path.extname(file).toLowerCase();
+  switch (extension) {
+    case '.py':
+      return commandCheck('python syntax', file, `${PYTHON} -m py_compile ${quote(file)}`, projectDir, options);
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      if (usesJsx(fs.readFileSync(absolute, 'utf-8'), projectDir)) {
+        return { name: 'node --check', target: file, status: 'skipped', details: 'JSX is not plain JavaScript; the project bundler checks it' };
+      }
+      return commandCheck('node --check', file, `node --check ${quote(file)}`, projectDir, options);
+    case '.json': {
+      // tsconfig.json and friends allow comments, which JSON.parse rejects
+      if (/^(tsconfig|jsconfig)(\..+)?\.json$/.test(path.basename(file))) return null;
+      try {
+        const data = JSON.parse(fs.readFileSync(absolute, 'utf-8'));
+        const problems = path.basename(file) === 'package.json' ? validatePackageJson(data, path.dirname(absolute)) : [];
+        return { name: path.basename(file) === 'package.json' ? 'package.json' : 'json', target: file, status: problems.length ? 'failed' : 'passed', details: problems.join('\n') || undefined };
+      } catch (error) {
+        return { name: 'json', target: file, status: 'failed', details: (error as Error).message };
+      }
+    }
+    case '.html':
+    case '.htm': {
+      const problems = validateHtml(fs.readFileSync(absolute, 'utf-8'), absolute, projectDir);
+      return { name: 'html', target: file, status: problems.length ? 'failed' : 'passed', details: problems.join('\n') || undefined };
+    }
+    default:
+      return null;
+  }
+};
+
+const listFiles = (dir: string, prefix: string = ''): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules' || entry.name === '__pycache__' || entry.name === 'venv') return [];
+    const relative = `${prefix}${entry.name}`;
+    return entry.isDirectory() ? listFiles(path.join(dir, entry.name), `${relative}/`) : [relative];
+  });
+
+// Type-checks TypeScript projects and runs the tests the project ships with
+const projectChecks = async (projectDir: string, changed: string[], options: VerifyOptions): Promise<VerificationCheck[]> => {
+  const checks: VerificationCheck[] = [];
+  const files = listFiles(projectDir);
+  const pkg = readPackageJson(projectDir);
+  const hasDependencies = pkg && Object.keys({ ...pkg.dependencies, ...pkg.devDependencies }).length > 0;
+  const installed = fs.existsSync(path.join(projectDir, 'node_modules'));
+
+  if (changed.some(file => /\.tsx?$/.test(file))) {
+    if (!fs.existsSync(path.join(projectDir, 'tsconfig.json'))) checks.push({ name: 'tsc --noEmit', target: '.', status: 'skipped', details: 'no tsconfig.json' });
+    else if (!fs.existsSync(path.join(projectDir, 'node_modules', 'typescript'))) checks.push({ name: 'tsc --noEmit', target: '.', status: 'skipped', details: 'TypeScript is not installed (run npm install)' });
+    else checks.push(await commandCheck('tsc --noEmit', '.', 'npx --no-install tsc --noEmit -p .', projectDir, options));
+  }
+
+  const testScript: string | undefined = pkg?.scripts?.test;
+  if (testScript && !/no test specified/.test(testScript)) {
+    if (hasDependencies && !installed) checks.push({ name: 'npm test', target: '.', status: 'skipped', details: 'dependencies are not installed (run npm install)' });
+    else checks.push(await testCheck('npm test', 'npm test --silent', projectDir, options));
+  }
+  if (files.some(file => /(^|\/)(test_[^/]*|[^/]*_test)\.py$/.test(file))) {
+    const pytest = await testCheck('pytest', `${PYTHON} -m pytest -q`, projectDir, options);
+    checks.push(pytest.status === 'skipped' && pytest.details !== 'not approved' ? await testCheck('unittest', `${PYTHON} -m unittest discover -q`, projectDir, options) : pytest);
+  }
+  if (files.some(file => file.endsWith('_test.go'))) checks.push(await testCheck('go test', 'go test ./...', projectDir, options));
+  return checks;
+};
+
+// Checks what a request generated: syntax of the changed files, HTML and package.json sanity,
+// a type-check for TypeScript, and the project's own tests. Checks run one after another.
+export const verifyProject = async (projectDir: string, project: string, changed: string[], options: VerifyOptions): Promise<VerificationReport> => {
+  const checks: VerificationCheck[] = [];
+  for (const file of changed) {
+    const check = await fileCheck(file, projectDir, options);
+    if (check) checks.push(check);
+  }
+  checks.push(...(await projectChecks(projectDir, changed, options)));
+  return { project, passed: checks.every(check => check.status !== 'failed'), checks };
+};
+
+// User turn that sends failed checks back to the model for a repair attempt
+export const verificationPrompt = (report: VerificationReport): string => {
+  const failures = report.checks
+    .filter(check => check.status === 'failed')
+    .map(check => `- ${check.name} (${check.target}):\n${check.details || 'failed'}`)
+    .join('\n');
+  return `Verification of "${report.project}" failed:\n${failures}\nFix the affected files with apply_patch or create_dynamic_file (step "generate_files"), then finish with final_result again.`;
+};
@@ -0,0 +1,80 @@
+import { after, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { captureFile, Checkpoint, createCheckpoint, listCheckpoints, restoreCheckpoint } from '../src/checkpoints';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor2-checkpoints-'));
+const root = path.join(tmp, 'workspace');
+const dir = path.join(root, '.cursor2', 'checkpoints');
+
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+beforeEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+  fs.mkdirSync(path.join(root, 'site'), { recursive: true });
+  fs.writeFileSync(path.join(root, 'site', 'index.html'), 'v1');
+});
+
+const read = (file: string) => fs.readFileSync(path.join(root, file), 'utf-8');
+
+// Captures the files the way the agent does before writing them, then writes the new contents
+const run = (request: string, writes: Record<string, string>): Checkpoint => {
+  const checkpoint = createCheckpoint(dir, request);
+  Object.entries(writes).forEach(([file, content]) => {
+    captureFile(dir, checkpoint, root, file);
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), content);
+  });
+  return checkpoint;
+};
+
+describe('checkpoints', () => {
+  test('numbers checkpoints and lists them newest first', () => {
+    run('first', { 'site/index.html': 'v2' });
+    run('second', { 'site/index.html': 'v3' });
+    assert.deepEqual(listCheckpoints(dir).map(checkpoint => [checkpoint.id, checkpoint.request]), [
+      ['2', 'second'],
+      ['1', 'first'],
+    ]);
+  });
+
+  test('keeps the state before the first write of a run', () => {
+    const checkpoint = run('edit twice', { 'site/index.html': 'v2' });
+    captureFile(dir, checkpoint, root, 'site/index.html');
+    assert.equal(checkpoint.files.length, 1);
+    assert.equal(fs.readFileSync(path.join(dir, checkpoint.id, checkpoint.files[0].snapshot!), 'utf-8'), 'v1');
+  });
+
+  test('does not save a checkpoint for a run that wrote nothing', () => {
+    createCheckpoint(dir, 'question only');
+    assert.deepEqual(listCheckpoints(dir), []);
+  });
+
+  test('undo restores changed files and deletes created ones', () => {
+    const checkpoint = run('add a page', { 'site/index.html': 'v2', 'site/pages/about.html': 'about' });
+    const result = restoreCheckpoint(dir, root, checkpoint.id)!;
+    assert.deepEqual(result.restored, ['site/index.html']);
+    assert.deepEqual(result.deleted, ['site/pages/about.html']);
+    assert.equal(read('site/index.html'), 'v1');
+    assert.equal(fs.existsSync(path.join(root, 'site', 'pages')), false);
+    assert.deepEqual(listCheckpoints(dir), []);
+  });
+
+  test('restoring an older checkpoint undoes every later run', () => {
+    const first = run('first', { 'site/index.html': 'v2' });
+    run('second', { 'site/index.html': 'v3', 'site/app.js': 'app' });
+    const result = restoreCheckpoint(dir, root, first.id)!;
+    assert.deepEqual(result.undone.map(checkpoint => checkpoint.id), ['2', '1']);
+    assert.equal(read('site/index.html'), 'v1');
+    assert.equal(fs.existsSync(path.join(root, 'site', 'app.js')), false);
+    assert.equal(fs.existsSync(path.join(root, 'site')), true);
+  });
+
+  test('returns null for an unknown id', () => {
+    run('first', { 'site/index.html': 'v2' });
+    assert.equal(restoreCheckpoint(dir, root, '9'), null);
+    assert.equal(read('site/index.html'), 'v2');
+  });
+});
@@ -0,0 +1,86 @@
+import { after, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor2-cli-'));
+const INDEX = path.join(__dirname, '..', 'src', 'index.ts');
+
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+const intent = { kind: 'new_project', projectName: 'notes-app', projectType: 'HTML web app', targetFiles: [], summary: 'Create a notes page.' };
+const files = [
+  { fileName: 'notes-app/index.html', content: '<!DOCTYPE html>\n<html lang="en">\n<head>\n  <link rel="stylesheet" href="style.css">\n</head>\n<body>\n  <h1>Notes</h1>\n</body>\n</html>\n' },
+  { fileName: 'notes-app/style.css', content: 'h1 { color: teal; }\n' },
+  { fileName: 'notes-app/execute.md', content: '# Execution Instructions for notes-app\n\nOpen `index.html` in a browser.\n' },
+];
+// The intent classification, then the five steps; generate_structure is followed by the structure reply
+const script = [
+  intent,
+  { step: 'initialization', content: "I'll create a notes page.", function: null, args: null },
+  { step: 'analyze', content: 'A static HTML page.', function: null, args: null },
+  { step: 'generate_structure', content: 'Planning the files.', function: 'generate_project_structure', args: { projectType: 'HTML web app', description: 'a notes page' } },
+  { structure: files.map(file => file.fileName) },
+  { step: 'generate_files', content: 'Writing the files.', function: 'create_dynamic_file', args: { files } },
+  { step: 'final_result', content: "Created 'notes-app'.", function: null, args: null },
+];
+
+// Runs "create" in a fresh workspace with the mock provider replaying the given replies
+const create = (name: string, replies: unknown[]) => {
+  const dir = path.join(tmp, name);
+  fs.mkdirSync(dir);
+  const scriptFile = path.join(dir, 'script.json');
+  fs.writeFileSync(scriptFile, JSON.stringify(replies));
+  const root = path.join(dir, 'workspace');
+  const run = spawnSync(process.execPath, ['-r', 'ts-node/register/transpile-only', INDEX, 'create', 'a notes page', '--yes', '--json', '--root', root], {
+    cwd: path.join(__dirname, '..'),
+    encoding: 'utf-8',
+    timeout: 120000,
+    env: {
+      ...process.env,
+      LLM_PROVIDER: 'mock',
+      MOCK_SCRIPT: scriptFile,
+      MOCK_LATENCY_MS: '0',
+      ANIMATION_MS: '0',
+      LLM_RETRY_BASE_MS: '0',
+      FORCE_COLOR: '0',
+      CURSOR2_CONFIG: path.join(dir, 'no-config.json'),
+    },
+  });
+  return { root, status: run.status, stderr: run.stderr, summary: run.stdout ? JSON.parse(run.stdout) : undefined };
+};
+
+describe('create with the mock provider', () => {
+  test('runs the five steps and writes the scripted files', () => {
+    const { root, status, stderr, summary } = create('complete', script);
+    assert.equal(status, 0, stderr);
+    assert.equal(summary.status, 'completed');
+    assert.equal(summary.intent.projectName, 'notes-app');
+    assert.deepEqual(
+      summary.steps.map((step: { step: string }) => step.step),
+      ['initialization', 'analyze', 'generate_structure', 'generate_files', 'final_result']
+    );
+    files.forEach(file => assert.equal(fs.readFileSync(path.join(root, file.fileName), 'utf-8'), file.content));
+    assert.equal(summary.filesChanged.length, files.length);
+    assert.equal(summary.verification[0].passed, true);
+    assert.equal(summary.usage.estimated, true);
+  });
+
+  test('repairs a rejected step reply and carries on', () => {
+    const { status, stderr, summary } = create('repair', [script[0], { content: 'Missing the step name.' }, ...script.slice(1)]);
+    assert.equal(status, 0, stderr);
+    assert.equal(summary.status, 'completed');
+    assert.match(stderr, /args\.step is required/);
+    assert.equal(summary.steps.length, 5);
+  });
+
+  test('fails with a clear error when the script runs out', () => {
+    const { root, status, stderr, summary } = create('exhausted', script.slice(0, 3));
+    assert.equal(status, 1);
+    assert.equal(summary.status, 'failed');
+    assert.match(stderr, /Mock script exhausted: all 3 replies were used/);
+    assert.equal(fs.existsSync(path.join(root, 'notes-app', 'index.html')), false);
+  });
+});
@@ -0,0 +1,107 @@
+import { after, afterEach, beforeEach, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadConfig, readProjectRules, RULES_FILE, rulesInstruction } from '../src/config';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor2-config-'));
+const globalFile = path.join(tmp, 'global.json');
+const root = path.join(tmp, 'workspace');
+const workspaceFile = path.join(root, '.cursor2', 'config.json');
+// Every variable loadConfig reads; npm sets npm_config_registry for scripts it runs
+const ENV_KEYS = ['CURSOR2_CONFIG', 'LLM_PROVIDER', 'LLM_MODEL', 'LLM_BASE_URL', 'LLM_TEMPERATURE', 'WORKSPACE_ROOT', 'APPROVAL_POLICY', 'REVIEW_MODE', 'ANIMATION_MS', 'npm_config_registry', 'NPM_CONFIG_REGISTRY', 'PIP_INDEX_URL', 'OFFLINE'];
+const savedEnv = { ...process.env };
+
+const writeJson = (file: string, value: unknown) => {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, typeof value === 'string' ? value : JSON.stringify(value));
+};
+
+beforeEach(() => {
+  ENV_KEYS.forEach(key => delete process.env[key]);
+  process.env.CURSOR2_CONFIG = globalFile;
+  fs.rmSync(globalFile, { force: true });
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  ENV_KEYS.forEach(key => (savedEnv[key] === undefined ? delete process.env[key] : (process.env[key] = savedEnv[key])));
+});
+
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('loadConfig', () => {
+  test('uses the defaults without any configuration', () => {
+    const { config, sources, errors } = loadConfig({});
+    assert.equal(config.root, 'chaicode');
+    assert.equal(config.approval, 'review');
+    assert.equal(config.dependencies.npmRegistry, 'https://registry.npmjs.org');
+    assert.equal(sources.approval, 'default');
+    assert.deepEqual(errors, []);
+  });
+
+  test('layers global file, workspace file, environment and flags in that order', () => {
+    writeJson(globalFile, { root, provider: 'openai', model: 'global-model', temperature: 0.1, approval: 'confirm' });
+    writeJson(workspaceFile, { model: 'workspace-model', temperature: 0.5 });
+    process.env.LLM_TEMPERATURE = '0.7';
+    const { config, sources } = loadConfig({ approval: 'auto' });
+    assert.equal(config.provider, 'openai');
+    assert.equal(sources.provider, globalFile);
+    assert.equal(config.model, 'workspace-model');
+    assert.equal(sources.model, workspaceFile);
+    assert.equal(config.temperature, 0.7);
+    assert.equal(sources.temperature, 'env');
+    assert.equal(config.approval, 'auto');
+    assert.equal(sources.approval, 'flag');
+  });
+
+  test('merges prompts and dependency settings by key and concatenates rules', () => {
+    writeJson(globalFile, { root, rules: ['no CDNs'], prompts: { system: 'global system' }, dependencies: { pipIndex: 'https://pypi.example/simple' } });
+    writeJson(workspaceFile, { rules: ['use tabs'], prompts: { file: 'workspace file prompt' } });
+    process.env.npm_config_registry = 'https://npm.example';
+    const { config } = loadConfig({ offline: true });
+    assert.deepEqual(config.rules, ['no CDNs', 'use tabs']);
+    assert.deepEqual(config.prompts, { system: 'global system', file: 'workspace file prompt' });
+    assert.deepEqual(config.dependencies, { npmRegistry: 'https://npm.example', pipIndex: 'https://pypi.example/simple', offline: true });
+  });
+
+  test('ignores "root" in the workspace file', () => {
+    writeJson(workspaceFile, { root: path.join(tmp, 'elsewhere') });
+    const { config, errors } = loadConfig({ root });
+    assert.equal(config.root, root);
+    assert.deepEqual(errors, [`${workspaceFile}: "root" is ignored in a workspace config`]);
+  });
+
+  test('reports an invalid file and keeps the other layers', () => {
+    writeJson(globalFile, { approval: 'always', model: 'ignored' });
+    writeJson(workspaceFile, '{ not json');
+    const { config, errors } = loadConfig({ root, model: 'flag-model' });
+    assert.equal(config.approval, 'review');
+    assert.equal(config.model, 'flag-model');
+    assert.equal(errors.length, 2);
+    assert.match(errors[0], /global\.json: config\.approval must be one of "review", "confirm", "auto"$/);
+    assert.ok(errors[1].startsWith(`${workspaceFile}: `));
+  });
+});
+
+describe('project rules', () => {
+  test(`reads ${RULES_FILE} and skips an empty one`, () => {
+    const project = path.join(tmp, 'rules-project');
+    fs.mkdirSync(project, { recursive: true });
+    assert.equal(readProjectRules(project), undefined);
+    fs.writeFileSync(path.join(project, RULES_FILE), '  \n');
+    assert.equal(readProjectRules(project), undefined);
+    fs.writeFileSync(path.join(project, RULES_FILE), 'Use local assets only.\n');
+    assert.equal(readProjectRules(project), 'Use local assets only.');
+  });
+
+  test('adds global and project rules to the system instruction', () => {
+    assert.equal(rulesInstruction([]), '');
+    const instruction = rulesInstruction(['no CDNs'], 'Use tabs.', 'site');
+    assert.equal(
+      instruction,
+      `\n\nRules for every project:\n- no CDNs\n\nRules for the project "site" (from its ${RULES_FILE} file):\nUse tabs.\nThese rules override any conflicting instruction above, including the UI guidelines.`
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { compactContents, ContextOptions } from '../src/context';
+import { Message } from '../src/providers';
+
+const user = (text: string): Message => ({ role: 'user', parts: [{ text }] });
+const model = (text: string): Message => ({ role: 'model', parts: [{ text }] });
+const toolOutput = (size: number): Message => user(JSON.stringify({ content: 'x'.repeat(size) }));
+const textOf = (message: Message) => message.parts.map(part => part.text).join('\n');
+
+const options: ContextOptions = { contextBudget: 200, requestBudget: 0, keepRecent: 2 };
+const state = 'Projects: site (HTML web app)';
+const noSummary = async (): Promise<string> => assert.fail('the summarizer should not be called');
+
+describe('compactContents', () => {
+  test('leaves a conversation within the budget alone', async () => {
+    const contents = [user('make a site'), model('done')];
+    assert.equal(await compactContents(contents, 0, options, state, noSummary), null);
+  });
+
+  test('first drops stale tool outputs and "Proceed" turns of earlier requests', async () => {
+    const contents = [user('make a site'), model('ok'), toolOutput(4000), user('Proceed to next step'), model('done'), user('add a page'), model('ok')];
+    const result = (await compactContents(contents, 5, options, state, noSummary))!;
+    assert.equal(result.droppedOutputs, 1);
+    assert.equal(result.summarizedMessages, 0);
+    assert.equal(result.contents.length, 6);
+    assert.match(textOf(result.contents[2]), /^\[Earlier tool output dropped to save context \(4014 characters\): \{"content":"xxx/);
+    assert.equal(textOf(result.contents[result.requestStart]), 'add a page');
+    assert.ok(result.tokensAfter < result.tokensBefore);
+  });
+
+  test('summarizes earlier requests with the project state when stubs are not enough', async () => {
+    const contents = [user(`make a site ${'with details '.repeat(200)}`), model('done'), user('add a page'), model('ok')];
+    let prompt = '';
+    const result = (await compactContents(contents, 2, options, state, async text => {
+      prompt = text;
+      return ' The user built an HTML site. ';
+    }))!;
+    assert.match(prompt, /^Summarize this conversation/);
+    assert.match(prompt, /User: make a site/);
+    assert.equal(result.summarizedMessages, 2);
+    assert.equal(result.contents.length, 3);
+    assert.match(textOf(result.contents[0]), /^Summary of the earlier conversation.*\nThe user built an HTML site\.\n\nProjects: site \(HTML web app\)$/);
+    assert.equal(result.requestStart, 1);
+    assert.deepEqual(result.contents.slice(1), contents.slice(2));
+  });
+
+  test('falls back to the list of earlier requests when the summarizer fails', async () => {
+    const contents = [user('make a site'), model('x'.repeat(2000)), user('add a page'), model('ok')];
+    const result = (await compactContents(contents, 2, options, state, async () => {
+      throw new Error('HTTP error! Status: 503');
+    }))!;
+    assert.match(textOf(result.contents[0]), /\nEarlier requests:\n- make a site\n\nProjects:/);
+  });
+
+  test('stubs older tool outputs of the current request but never the recent messages', async () => {
+    const contents = [user('make a site'), model('reading'), toolOutput(2000), model('writing'), toolOutput(2000)];
+    const result = (await compactContents(contents, 0, { ...options, keepRecent: 1 }, state, noSummary))!;
+    assert.equal(result.droppedOutputs, 1);
+    assert.match(textOf(result.contents[2]), /^\[Earlier tool output dropped/);
+    assert.deepEqual(result.contents[4], contents[4]);
+    assert.equal(result.requestStart, 0);
+  });
+
+  test('keeps the request start on the same message when it is among the recent ones', async () => {
+    const contents = [user('x'.repeat(2000)), model('done'), model('more'), user('add a page'), model('ok')];
+    const result = (await compactContents(contents, 3, { ...options, keepRecent: 3 }, state, async () => 'Summary.'))!;
+    assert.equal(result.summarizedMessages, 2);
+    assert.equal(textOf(result.contents[result.requestStart]), 'add a page');
+  });
+
+  test('compacts below the budget when forced', async () => {
+    const contents = [user('make a site'), model('done'), user('add a page'), model('ok')];
+    const result = (await compactContents(contents, 2, options, state, async () => 'Summary.', true))!;
+    assert.equal(result.summarizedMessages, 2);
+  });
+});
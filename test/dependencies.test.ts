@@ -0,0 +1,106 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import { highestMatch, resolvePackages } from '../src/dependencies';
+
+describe('highestMatch for npm ranges', () => {
+  const versions = ['0.9.0', '1.0.0', '1.2.3', '1.2.9', '1.5.0', '2.0.0', '2.1.0-beta.1'];
+  const cases: [string, string | null][] = [
+    ['', '2.0.0'],
+    ['*', '2.0.0'],
+    ['latest', '2.0.0'],
+    ['1.2.3', '1.2.3'],
+    ['=1.2.3', '1.2.3'],
+    ['^1.2.0', '1.5.0'],
+    ['~1.2.0', '1.2.9'],
+    ['1.x', '1.5.0'],
+    ['1.2', '1.2.9'],
+    ['>=1.0.0 <1.5.0', '1.2.9'],
+    ['>= 1.2.3 <= 1.2.9', '1.2.9'],
+    ['>1.5.0', '2.0.0'],
+    ['<1', '0.9.0'],
+    ['^0.9.0 || ^1.0.0', '1.5.0'],
+    ['^3.0.0', null],
+  ];
+  cases.forEach(([spec, expected]) => test(`"${spec}" → ${expected}`, () => assert.equal(highestMatch('npm', versions, spec), expected)));
+
+  test('caret ranges below 1.0 stay within the minor or patch release', () => {
+    assert.equal(highestMatch('npm', ['0.2.3', '0.2.9', '0.3.0'], '^0.2.3'), '0.2.9');
+    assert.equal(highestMatch('npm', ['0.0.3', '0.0.4'], '^0.0.3'), '0.0.3');
+  });
+
+  test('pre-releases are picked only when the range names one of the same release', () => {
+    assert.equal(highestMatch('npm', ['2.1.0-beta.1'], '*'), null);
+    assert.equal(highestMatch('npm', versions, '^2.0.0'), '2.0.0');
+    const betas = ['1.9.0', '2.0.0-alpha.3', '2.0.0-beta.2', '2.0.0-beta.10', '2.0.0-rc.1', '2.1.0-beta.1'];
+    assert.equal(highestMatch('npm', betas, '^2.0.0-beta.1'), '2.0.0-rc.1');
+    assert.equal(highestMatch('npm', [...betas, '2.0.1'], '^2.0.0-beta.1'), '2.0.1');
+    assert.equal(highestMatch('npm', betas, '>=2.0.0-beta.1 <2.0.0-rc'), '2.0.0-beta.10');
+    assert.equal(highestMatch('npm', betas, '2.0.0-beta.2'), '2.0.0-beta.2');
+    assert.equal(highestMatch('npm', betas, '^1.0.0'), '1.9.0');
+    assert.equal(highestMatch('npm', betas, '2.x-beta'), undefined);
+  });
+
+  test('ranges it cannot evaluate give undefined', () => {
+    assert.equal(highestMatch('npm', versions, 'github:user/repo'), undefined);
+    assert.equal(highestMatch('npm', versions, 'file:../lib'), undefined);
+  });
+});
+
+describe('highestMatch for pip specifiers', () => {
+  const versions = ['1.0', '1.4.2', '1.4.9', '2.0', '2.1', '3.0rc1'];
+  const cases: [string, string | null][] = [
+    ['', '2.1'],
+    ['==1.4.2', '1.4.2'],
+    ['==1.4.*', '1.4.9'],
+    ['>=1.0,<2.0', '1.4.9'],
+    ['~=1.4', '1.4.9'],
+    ['~=1.4.2', '1.4.9'],
+    ['!=2.1', '2.0'],
+    ['!=2.*', '1.4.9'],
+    ['<=2.0', '2.0'],
+    ['>2.1', null],
+  ];
+  cases.forEach(([spec, expected]) => test(`"${spec}" → ${expected}`, () => assert.equal(highestMatch('pip', versions, spec), expected)));
+
+  test('specifiers it cannot evaluate give undefined', () => {
+    assert.equal(highestMatch('pip', versions, '@https://example.com/pkg.tar.gz'), undefined);
+  });
+});
+
+describe('resolvePackages', () => {
+  let server: http.Server;
+  let registry = '';
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  // Registry that answers every package with versions 1.0.0 and 1.1.0 after a short delay
+  before(async () => {
+    server = http.createServer((request, response) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      setTimeout(() => {
+        inFlight--;
+        if (request.url === '/missing') response.writeHead(404).end();
+        else response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ versions: { '1.0.0': {}, '1.1.0': {} } }));
+      }, 20);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    registry = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  test('resolves every package with a bounded number of requests in flight', async () => {
+    const packages = Array.from({ length: 20 }, (_, index) => ({ name: `pkg-${index}`, spec: '^1.0.0' }));
+    const resolved = await resolvePackages(
+      { manager: 'npm', file: 'package.json', packages: [...packages, { name: 'missing', spec: '*' }] },
+      { npmRegistry: registry, pipIndex: registry, offline: false, cacheDir: os.tmpdir(), timeoutMs: 10000 }
+    );
+    assert.deepEqual(resolved.slice(0, 20).map(pkg => [pkg.name, pkg.version]), packages.map(pkg => [pkg.name, '1.1.0']));
+    assert.equal(resolved[20].problem, `not found in ${registry}`);
+    assert.ok(maxInFlight > 1 && maxInFlight <= 8, `${maxInFlight} requests were in flight`);
+  });
+});
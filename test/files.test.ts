@@ -0,0 +1,38 @@
+import { after, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeFileAtomic } from '../src/files';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor2-files-'));
+
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('writeFileAtomic', () => {
+  test('creates a new file and leaves no temporary file behind', () => {
+    const file = path.join(tmp, 'new.txt');
+    writeFileAtomic(file, 'hello\n');
+    assert.equal(fs.readFileSync(file, 'utf-8'), 'hello\n');
+    assert.deepEqual(fs.readdirSync(tmp).filter(name => name.endsWith('.tmp')), []);
+  });
+
+  test('writes through a symlink instead of replacing it', () => {
+    const target = path.join(tmp, 'shared.json');
+    const link = path.join(tmp, 'linked.json');
+    fs.writeFileSync(target, '{}');
+    fs.symlinkSync(target, link);
+    writeFileAtomic(link, '{"updated":true}');
+    assert.equal(fs.lstatSync(link).isSymbolicLink(), true);
+    assert.equal(fs.readFileSync(target, 'utf-8'), '{"updated":true}');
+  });
+
+  test('keeps the mode of an existing file', { skip: process.platform === 'win32' && 'no POSIX file modes' }, () => {
+    const script = path.join(tmp, 'run.sh');
+    fs.writeFileSync(script, '#!/bin/sh\necho old\n');
+    fs.chmodSync(script, 0o755);
+    writeFileAtomic(script, '#!/bin/sh\necho new\n');
+    assert.equal(fs.statSync(script).mode & 0o777, 0o755);
+    assert.equal(fs.readFileSync(script, 'utf-8'), '#!/bin/sh\necho new\n');
+  });
+});
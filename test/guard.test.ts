@@ -0,0 +1,98 @@
+import { after, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isViolation, resolveWorkspacePath, ResolvedPath, WorkspacePolicy, WorkspaceViolation } from '../src/guard';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor2-guard-'));
+const root = path.join(tmp, 'chaicode');
+const outside = path.join(tmp, 'outside');
+fs.mkdirSync(path.join(root, 'todo-app'), { recursive: true });
+fs.mkdirSync(outside);
+const policy: WorkspacePolicy = { root, denylist: ['.env', '.env.*', '.git/', '*.pem', '*.key'], linked: [] };
+
+const resolved = (requested: string, options: WorkspacePolicy = policy): ResolvedPath => {
+  const result = resolveWorkspacePath(options, requested);
+  assert.ok(!isViolation(result), `expected ${requested} to resolve`);
+  return result as ResolvedPath;
+};
+
+const rejected = (requested: string, options: WorkspacePolicy = policy): WorkspaceViolation => {
+  const result = resolveWorkspacePath(options, requested);
+  assert.ok(isViolation(result), `expected ${requested} to be rejected`);
+  return result as WorkspaceViolation;
+};
+
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('resolveWorkspacePath', () => {
+  test('resolves relative paths against the root', () => {
+    const target = resolved('todo-app/index.html');
+    assert.equal(target.absolute, path.join(root, 'todo-app', 'index.html'));
+    assert.equal(target.relative, 'todo-app/index.html');
+    assert.equal(target.display, `${root.replace(/\\/g, '/')}/todo-app/index.html`);
+  });
+
+  test('accepts an optional root folder prefix', () => {
+    assert.equal(resolved('chaicode/todo-app/index.html').relative, 'todo-app/index.html');
+    assert.equal(resolved('./chaicode').relative, '');
+  });
+
+  test('keeps the prefix for a folder named like the root that exists', () => {
+    fs.mkdirSync(path.join(root, 'chaicode'));
+    fs.writeFileSync(path.join(root, 'chaicode', 'notes.txt'), 'notes');
+    try {
+      assert.equal(resolved('chaicode/notes.txt').relative, 'chaicode/notes.txt');
+      // Display paths of that folder resolve back to it
+      assert.equal(resolved('chaicode/chaicode/notes.txt').relative, 'chaicode/notes.txt');
+      assert.equal(resolved('chaicode/todo-app/style.css').relative, 'todo-app/style.css');
+    } finally {
+      fs.rmSync(path.join(root, 'chaicode'), { recursive: true });
+    }
+  });
+
+  test('rejects paths that leave the workspace', () => {
+    assert.equal(rejected('../outside/secret.txt').reason, 'outside_workspace');
+    assert.equal(rejected('todo-app/../../outside').reason, 'outside_workspace');
+    assert.equal(rejected(path.join(outside, 'secret.txt')).reason, 'outside_workspace');
+    assert.equal(resolved(path.join(root, 'todo-app', 'app.js')).relative, 'todo-app/app.js');
+    assert.equal(rejected('todo-app/../..').reason, 'outside_workspace');
+  });
+
+  test('accepts names that only start with two dots', () => {
+    assert.equal(resolved('..config/settings.json').relative, '..config/settings.json');
+    assert.equal(resolved('todo-app/..hidden').relative, 'todo-app/..hidden');
+    assert.equal(resolved('todo-app/..').relative, '');
+  });
+
+  test('strips the root name only as the first segment', () => {
+    assert.equal(resolved('todo-app/chaicode/index.html').relative, 'todo-app/chaicode/index.html');
+    assert.equal(resolved(path.join(root, 'chaicode', 'index.html')).relative, 'chaicode/index.html');
+  });
+
+  test('rejects protected files at any depth', () => {
+    assert.equal(rejected('todo-app/.env').reason, 'denylisted');
+    assert.equal(rejected('todo-app/.env.local').reason, 'denylisted');
+    assert.equal(rejected('todo-app/.git/config').reason, 'denylisted');
+    assert.equal(rejected('todo-app/certs/server.pem').reason, 'denylisted');
+    assert.equal(resolved('todo-app/env.js').relative, 'todo-app/env.js');
+  });
+
+  test('rejects symbolic links to folders outside the workspace unless they are linked', t => {
+    const link = path.join(root, 'linked');
+    try {
+      fs.symlinkSync(outside, link, 'dir');
+    } catch {
+      t.skip('symbolic links are not available');
+      return;
+    }
+    try {
+      assert.equal(rejected('linked/file.txt').reason, 'symlink_escape');
+      const linkedPolicy = { ...policy, linked: [fs.realpathSync(outside)] };
+      assert.equal(resolved('linked/file.txt', linkedPolicy).relative, 'linked/file.txt');
+    } finally {
+      fs.unlinkSync(link);
+    }
+  });
+});
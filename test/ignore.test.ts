@@ -0,0 +1,69 @@
+import { after, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isIgnored, readGitignore } from '../src/ignore';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor2-ignore-'));
+fs.mkdirSync(path.join(tmp, 'web'));
+fs.writeFileSync(path.join(tmp, '.gitignore'), ['# build output', 'node_modules/', '/dist', '*.log', '!keep.log', 'docs/**/draft.md', '\\#notes', ''].join('\n'));
+fs.writeFileSync(path.join(tmp, 'web', '.gitignore'), 'cache\n');
+fs.mkdirSync(path.join(tmp, 'broken'));
+fs.writeFileSync(path.join(tmp, 'broken', '.gitignore'), ['*.tmp', 'file[z-a].txt', 'out/'].join('\n'));
+
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+describe('readGitignore and isIgnored', () => {
+  const rules = readGitignore(tmp, '');
+  const webRules = readGitignore(path.join(tmp, 'web'), 'web', rules);
+
+  test('reads nothing from a folder without a .gitignore', () => {
+    assert.deepEqual(readGitignore(path.join(tmp, 'missing'), 'missing'), []);
+  });
+
+  test('directory patterns match folders only', () => {
+    assert.equal(isIgnored(rules, 'node_modules', true), true);
+    assert.equal(isIgnored(rules, 'web/node_modules', true), true);
+    assert.equal(isIgnored(rules, 'node_modules', false), false);
+  });
+
+  test('patterns with a slash are anchored to the .gitignore folder', () => {
+    assert.equal(isIgnored(rules, 'dist', true), true);
+    assert.equal(isIgnored(rules, 'web/dist', true), false);
+    assert.equal(isIgnored(rules, 'docs/draft.md', false), true);
+    assert.equal(isIgnored(rules, 'docs/a/b/draft.md', false), true);
+    assert.equal(isIgnored(rules, 'web/docs/draft.md', false), false);
+  });
+
+  test('names without a slash match at any depth', () => {
+    assert.equal(isIgnored(rules, 'server.log', false), true);
+    assert.equal(isIgnored(rules, 'web/logs/error.log', false), true);
+    assert.equal(isIgnored(rules, 'server.log.txt', false), false);
+  });
+
+  test('a later negation re-includes a path', () => {
+    assert.equal(isIgnored(rules, 'keep.log', false), false);
+    assert.equal(isIgnored(rules, 'web/keep.log', false), false);
+  });
+
+  test('comments are skipped and escaped "#" is literal', () => {
+    assert.equal(isIgnored(rules, '# build output', false), false);
+    assert.equal(isIgnored(rules, '#notes', false), true);
+  });
+
+  test('a nested .gitignore applies only below its folder', () => {
+    assert.equal(isIgnored(webRules, 'web/cache', true), true);
+    assert.equal(isIgnored(webRules, 'web/src/cache', false), true);
+    assert.equal(isIgnored(webRules, 'cache', true), false);
+    assert.equal(isIgnored(webRules, 'web/app.log', false), true);
+  });
+
+  test('an invalid pattern is skipped without dropping the rest of the file', () => {
+    const brokenRules = readGitignore(path.join(tmp, 'broken'), 'broken');
+    assert.equal(brokenRules.length, 2);
+    assert.equal(isIgnored(brokenRules, 'broken/a.tmp', false), true);
+    assert.equal(isIgnored(brokenRules, 'broken/out', true), true);
+    assert.equal(isIgnored(brokenRules, 'broken/filez.txt', false), false);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applyFilePatch, isPatchFailure, PatchFailure } from '../src/patch';
+
+const file = ['<html>', '<body>', '  <h1>Todo</h1>', '  <ul id="list"></ul>', '  <script src="app.js"></script>', '</body>', '</html>', ''].join('\n');
+
+const failure = (result: string | PatchFailure): PatchFailure => {
+  assert.ok(isPatchFailure(result), `expected a patch failure, got ${JSON.stringify(result)}`);
+  return result;
+};
+
+describe('applyFilePatch with edits', () => {
+  test('replaces a unique search text', () => {
+    const result = applyFilePatch({ fileName: 'index.html', edits: [{ search: '<h1>Todo</h1>', replace: '<h1>My Todos</h1>' }] }, 'index.html', file);
+    assert.equal(result, file.replace('<h1>Todo</h1>', '<h1>My Todos</h1>'));
+  });
+
+  test('applies edits in order, each against the previous result', () => {
+    const result = applyFilePatch(
+      {
+        fileName: 'index.html',
+        edits: [
+          { search: 'Todo', replace: 'Tasks' },
+          { search: '<h1>Tasks</h1>', replace: '<h1>Tasks</h1>\n  <input id="new">' },
+        ],
+      },
+      'index.html',
+      file
+    );
+    assert.ok(typeof result === 'string' && result.includes('<h1>Tasks</h1>\n  <input id="new">'));
+  });
+
+  test('creates a file from an empty search text', () => {
+    assert.equal(applyFilePatch({ fileName: 'app.js', edits: [{ search: '', replace: 'console.log(1);\n' }] }, 'app.js', null), 'console.log(1);\n');
+    assert.equal(failure(applyFilePatch({ fileName: 'app.js', edits: [{ search: 'x', replace: 'y' }] }, 'app.js', null)).hunk, 1);
+  });
+
+  test('reports where a search text stops matching', () => {
+    const result = failure(applyFilePatch({ fileName: 'index.html', edits: [{ search: '<body>\n <h1>Todo</h1>', replace: '' }] }, 'index.html', file));
+    assert.equal(result.path, 'index.html');
+    assert.equal(result.hunk, 1);
+    assert.match(result.message, /closest match starts at line 2, but line 3 is .* \(only whitespace differs\)/);
+  });
+
+  test('rejects a search text that matches more than once', () => {
+    const result = failure(applyFilePatch({ fileName: 'index.html', edits: [{ search: 'html>', replace: 'x' }] }, 'index.html', file));
+    assert.match(result.message, /matches 2 times \(lines 1, 7\)/);
+  });
+});
+
+describe('applyFilePatch with a unified diff', () => {
+  test('applies hunks', () => {
+    const diff = ['--- a/index.html', '+++ b/index.html', '@@ -3,2 +3,3 @@', '   <h1>Todo</h1>', '+  <input id="new">', '   <ul id="list"></ul>'].join('\n');
+    assert.equal(applyFilePatch({ fileName: 'index.html', diff }, 'index.html', file), file.replace('</h1>\n', '</h1>\n  <input id="new">\n'));
+  });
+
+  test('finds a hunk whose header points past the end of the file', () => {
+    const diff = ['@@ -40,1 +40,1 @@', '-  <script src="app.js"></script>', '+  <script src="main.js"></script>'].join('\n');
+    assert.equal(applyFilePatch({ fileName: 'index.html', diff }, 'index.html', file), file.replace('app.js', 'main.js'));
+  });
+
+  test('finds a hunk a few lines from where its header says', () => {
+    const diff = ['@@ -2,1 +2,1 @@', '-  <script src="app.js"></script>', '+  <script src="main.js"></script>'].join('\n');
+    assert.equal(applyFilePatch({ fileName: 'index.html', diff }, 'index.html', file), file.replace('app.js', 'main.js'));
+  });
+
+  test('fails on a hunk whose lines are not in the file', () => {
+    const diff = ['@@ -3,1 +3,1 @@', '-  <h2>Todo</h2>', '+  <h2>Done</h2>'].join('\n');
+    const result = failure(applyFilePatch({ fileName: 'index.html', diff }, 'index.html', file));
+    assert.equal(result.hunk, 1);
+    assert.match(result.message, /does not apply: line 3 is "  <h1>Todo<\/h1>" but the hunk expects "  <h2>Todo<\/h2>"/);
+  });
+
+  test('fails on a diff without hunks', () => {
+    assert.match(failure(applyFilePatch({ fileName: 'index.html', diff: '--- a/index.html\n+++ b/index.html\n' }, 'index.html', file)).message, /contains no hunks/);
+  });
+});
+
+test('applyFilePatch needs exactly one of edits and diff', () => {
+  assert.match(failure(applyFilePatch({ fileName: 'a.js' }, 'a.js', '')).message, /"edits" or "diff" is required/);
+  assert.match(failure(applyFilePatch({ fileName: 'a.js', edits: [], diff: '' }, 'a.js', '')).message, /not both/);
+});
@@ -0,0 +1,99 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { HttpError, LLMProvider } from '../src/providers';
+import { backoffDelay, isRetryable, RecoveryAttempt, RecoveryOptions, repairPrompt, withRetries } from '../src/recovery';
+import { parseStepReply, reportStepSchema, withStepEnvelope } from '../src/tools';
+
+const options: RecoveryOptions = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5, repairBudget: 3 };
+
+// Provider that throws the given errors in order, then answers
+const failingProvider = (errors: unknown[]): LLMProvider & { calls: number } => {
+  const provider = {
+    name: 'mock' as const,
+    model: 'test',
+    calls: 0,
+    generate: async () => {
+      const error = errors[provider.calls++];
+      if (error) throw error;
+      return { text: 'ok' };
+    },
+  };
+  return provider;
+};
+
+const networkError = () => Object.assign(new TypeError('fetch failed'), { cause: Object.assign(new Error('connect'), { code: 'ECONNRESET' }) });
+
+describe('isRetryable', () => {
+  test('retries rate limits, server errors and network errors only', () => {
+    assert.equal(isRetryable(new HttpError(429)), true);
+    assert.equal(isRetryable(new HttpError(503)), true);
+    assert.equal(isRetryable(new HttpError(400)), false);
+    assert.equal(isRetryable(networkError()), true);
+    assert.equal(isRetryable(new SyntaxError('Unexpected token')), false);
+    assert.equal(isRetryable(Object.assign(new Error('aborted'), { name: 'AbortError' })), false);
+  });
+});
+
+describe('backoffDelay', () => {
+  const slow: RecoveryOptions = { ...options, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+  test('doubles per attempt up to the maximum', () => {
+    assert.deepEqual([1, 2, 3, 6, 10].map(attempt => backoffDelay(attempt, slow)), [1000, 2000, 4000, 30000, 30000]);
+  });
+
+  test('prefers the Retry-After of the error', () => {
+    assert.equal(backoffDelay(1, slow, new HttpError(429, 7000)), 7000);
+    assert.equal(backoffDelay(1, slow, new HttpError(429, 60000)), 30000);
+  });
+});
+
+describe('withRetries', () => {
+  test('retries transient failures and reports every attempt', async () => {
+    const provider = failingProvider([new HttpError(503), networkError()]);
+    const attempts: RecoveryAttempt[] = [];
+    const resets: boolean[] = [];
+    const reply = await withRetries(provider, options, attempt => attempts.push(attempt)).generate({
+      contents: [],
+      onDelta: delta => resets.push(!!delta.reset),
+    });
+    assert.equal(reply.text, 'ok');
+    assert.equal(provider.calls, 3);
+    assert.deepEqual(attempts.map(attempt => [attempt.kind, attempt.attempt, attempt.delayMs]), [
+      ['http', 1, 1],
+      ['http', 2, 2],
+    ]);
+    assert.deepEqual(resets, [true, true]);
+  });
+
+  test('gives up after maxRetries', async () => {
+    const provider = failingProvider([new HttpError(500), new HttpError(502), new HttpError(503)]);
+    const attempts: RecoveryAttempt[] = [];
+    await assert.rejects(withRetries(provider, options, attempt => attempts.push(attempt)).generate({ contents: [] }), /Status: 503/);
+    assert.equal(provider.calls, 3);
+    assert.equal(attempts[2].delayMs, undefined);
+  });
+
+  test('does not retry client errors', async () => {
+    const provider = failingProvider([new HttpError(401)]);
+    await assert.rejects(withRetries(provider, options, () => undefined).generate({ contents: [] }), /Status: 401/);
+    assert.equal(provider.calls, 1);
+  });
+
+  test('stops retrying once the request is cancelled', async () => {
+    const controller = new AbortController();
+    const provider = failingProvider([new HttpError(503), new HttpError(503)]);
+    const slow = withRetries(provider, { ...options, baseDelayMs: 60000, maxDelayMs: 60000 }, () => controller.abort());
+    await assert.rejects(slow.generate({ contents: [], signal: controller.signal }), /Status: 503/);
+    assert.equal(provider.calls, 1);
+  });
+});
+
+describe('repairPrompt', () => {
+  test('sends the validation error back to the model', () => {
+    const { error } = parseStepReply({ text: '{"content":"no step"}' }, [withStepEnvelope(reportStepSchema)]);
+    assert.equal(
+      repairPrompt(error!),
+      'Your previous reply was rejected: Invalid arguments for report_step: args.step is required. Reply again for the same step with a single valid function call.'
+    );
+  });
+});
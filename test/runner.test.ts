@@ -0,0 +1,54 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as os from 'os';
+import { commandSucceeded, CommandResult, runCommand } from '../src/runner';
+
+const result = (overrides: Partial<CommandResult>): CommandResult => ({
+  command: 'npm start',
+  cwd: '.',
+  exitCode: 0,
+  timedOut: false,
+  aborted: false,
+  durationMs: 1,
+  stdout: '',
+  stderr: '',
+  ...overrides,
+});
+
+describe('runCommand', { skip: process.platform === 'win32' && 'needs a POSIX shell' }, () => {
+  test('captures the output and exit code', async () => {
+    const run = await runCommand('echo out; echo err >&2; exit 3', os.tmpdir(), { timeoutMs: 10000 });
+    assert.equal(run.exitCode, 3);
+    assert.equal(run.stdout, 'out\n');
+    assert.equal(run.stderr, 'err\n');
+    assert.equal(commandSucceeded(run), false);
+  });
+
+  test('keeps only the tail of long output', async () => {
+    const run = await runCommand(`node -e "for (let i = 0; i < 5000; i++) console.log('line ' + i)"`, os.tmpdir(), { timeoutMs: 10000 });
+    assert.ok(run.stdout.startsWith('...(truncated)\n'));
+    assert.ok(run.stdout.endsWith('line 4999\n'));
+    assert.ok(run.stdout.length < 8100);
+  });
+
+  test('kills a command that ignores SIGTERM after the timeout', async () => {
+    const run = await runCommand(`trap '' TERM; sleep 30`, os.tmpdir(), { timeoutMs: 300 });
+    assert.equal(run.timedOut, true);
+    assert.ok(run.durationMs < 10000, `took ${run.durationMs}ms`);
+    assert.equal(commandSucceeded(run), false);
+  });
+
+  test('stops when the signal aborts', async () => {
+    const abort = new AbortController();
+    setTimeout(() => abort.abort(), 200);
+    const run = await runCommand('sleep 30', os.tmpdir(), { timeoutMs: 30000, signal: abort.signal });
+    assert.equal(run.aborted, true);
+    assert.equal(commandSucceeded(run), false);
+  });
+});
+
+test('commandSucceeded needs exit code 0 within the time limit', () => {
+  assert.equal(commandSucceeded(result({})), true);
+  assert.equal(commandSucceeded(result({ exitCode: null, timedOut: true })), false);
+  assert.equal(commandSucceeded(result({ exitCode: 0, timedOut: true })), false);
+});
@@ -0,0 +1,68 @@
+import { after, before, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AgentApi, AgentServer, startServer } from '../src/server';
+
+const token = 'test-token';
+const api: AgentApi = {
+  root: 'chaicode',
+  runRequest: async request => ({ request, status: 'completed', steps: [], filesChanged: [] }),
+  listProjects: () => [],
+  readDirectory: () => [],
+  readFile: () => ({ path: 'chaicode/todo-app/index.html', content: '<html></html>' }),
+  cancelRun: () => undefined,
+};
+
+// Plain http.request, so the Host header can be set like a DNS-rebinding page would
+const request = (port: number, path: string, headers: Record<string, string> = {}, method = 'GET'): Promise<{ status: number; body: string }> =>
+  new Promise((resolve, reject) => {
+    const req = http.request({ host: '127.0.0.1', port, path, method, headers }, res => {
+      let body = '';
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve({ status: res.statusCode!, body }));
+    });
+    req.on('error', reject);
+    req.end();
+  });
+
+describe('API server access', () => {
+  let agent: AgentServer;
+  let port: number;
+
+  before(async () => {
+    agent = await startServer(api, 0, '127.0.0.1', { token, origins: [] });
+    port = (agent.server.address() as { port: number }).port;
+  });
+
+  after(() => new Promise<void>(resolve => agent.server.close(() => resolve())));
+
+  test('rejects reads without the token', async () => {
+    for (const path of ['/api/files?path=todo-app/index.html', '/api/projects', '/api/projects/todo-app/files', '/api/runs', '/api/runs/1', '/api/runs/1/events']) {
+      const response = await request(port, path);
+      assert.equal(response.status, 401, path);
+      assert.equal(JSON.parse(response.body).error, 'unauthorized');
+    }
+  });
+
+  test('rejects a wrong token and requests that start runs without one', async () => {
+    assert.equal((await request(port, '/api/projects', { Authorization: 'Bearer wrong' })).status, 401);
+    assert.equal((await request(port, '/api/runs', {}, 'POST')).status, 401);
+  });
+
+  test('answers requests with the token', async () => {
+    const response = await request(port, '/api/files?path=todo-app/index.html', { Authorization: `Bearer ${token}` });
+    assert.equal(response.status, 200);
+    assert.equal(JSON.parse(response.body).content, '<html></html>');
+  });
+
+  test('accepts the token as a query parameter only on the event stream', async () => {
+    assert.equal((await request(port, `/api/runs/1/events?token=${token}`)).status, 404);
+    assert.equal((await request(port, `/api/projects?token=${token}`)).status, 401);
+  });
+
+  test('rejects host names other than loopback ones', async () => {
+    const response = await request(port, '/api/projects', { Authorization: `Bearer ${token}`, Host: `rebind.example:${port}` });
+    assert.equal(response.status, 403);
+    assert.equal((await request(port, '/api/projects', { Authorization: `Bearer ${token}`, Host: `localhost:${port}` })).status, 200);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { assembleFileContent, createStepPreview, partialJsonString } from '../src/stream';
+
+const plain = (text: string) => text.replace(/\x1b\[[0-9;]*m/g, '');
+
+describe('partialJsonString', () => {
+  test('reads a value that is still arriving', () => {
+    assert.deepEqual(partialJsonString('{"step": "analyze", "content": "Found the pro', 'content'), { value: 'Found the pro', complete: false });
+    assert.deepEqual(partialJsonString('{"step": "analyze", "content": "Found it."}', 'content'), { value: 'Found it.', complete: true });
+  });
+
+  test('is undefined until the key and opening quote arrive', () => {
+    assert.equal(partialJsonString('{"step": "analyze", "cont', 'content'), undefined);
+    assert.equal(partialJsonString('{"step": "analyze", "content": ', 'content'), undefined);
+  });
+
+  test('decodes escape sequences', () => {
+    assert.deepEqual(partialJsonString('{"content": "a\\"b\\\\c\\nd\\u00e9"}', 'content'), { value: 'a"b\\c\ndé', complete: true });
+  });
+
+  test('waits for the rest of an escape cut off by the chunk', () => {
+    assert.deepEqual(partialJsonString('{"content": "line\\', 'content'), { value: 'line', complete: false });
+    assert.deepEqual(partialJsonString('{"content": "caf\\u00', 'content'), { value: 'caf', complete: false });
+  });
+});
+
+describe('createStepPreview', () => {
+  test('prints the step and streams its content once', () => {
+    let output = '';
+    const preview = createStepPreview(text => (output += text));
+    ['{"step": "ana', 'lyze", "content": "Look', 'ing at the files."}'].forEach(toolArgs => preview.onDelta({ toolArgs }));
+    assert.deepEqual(preview.finish(), { step: 'analyze', content: 'Looking at the files.' });
+    assert.equal(plain(output), '📍 Step: analyze\n📝 Looking at the files.\n');
+  });
+
+  test('starts over when the stream is reset for a retry', () => {
+    let output = '';
+    const preview = createStepPreview(text => (output += text));
+    preview.onDelta({ text: '{"step": "analyze", "content": "Half' });
+    preview.onDelta({ reset: true });
+    preview.onDelta({ text: '{"step": "final_result", "content": "Done."}' });
+    assert.deepEqual(preview.finish(), { step: 'final_result', content: 'Done.' });
+    assert.equal(plain(output), '📍 Step: analyze\n📝 Half\n📍 Step: final_result\n📝 Done.\n');
+  });
+});
+
+describe('assembleFileContent', () => {
+  test('unwraps a single code fence', () => {
+    assert.equal(assembleFileContent('```js\nconsole.log(1);\n```'), 'console.log(1);\n');
+    assert.equal(assembleFileContent('# Title\n\n```sh\nnpm start\n```\n'), '# Title\n\n```sh\nnpm start\n```\n');
+  });
+
+  test('rejects empty and truncated replies', () => {
+    assert.throws(() => assembleFileContent('  \n'), /returned no content/);
+    assert.throws(() => assembleFileContent('<html>', true), /stopped at its output limit after 6 characters/);
+  });
+});
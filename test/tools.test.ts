@@ -0,0 +1,86 @@
+import { describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { JsonSchema, parseStepReply, reportStepSchema, ToolSchema, validateArgs, withStepEnvelope } from '../src/tools';
+
+const runCommand: ToolSchema = {
+  name: 'run_command',
+  description: 'Runs a command in a project',
+  parameters: {
+    type: 'object',
+    properties: {
+      command: { type: 'string' },
+      timeoutSeconds: { type: 'number' },
+      env: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['command'],
+  },
+};
+const tools = [withStepEnvelope(reportStepSchema), withStepEnvelope(runCommand)];
+
+describe('validateArgs', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      mode: { type: 'string', enum: ['fast', 'safe'] },
+      count: { type: 'integer' },
+      files: { type: 'array', items: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] } },
+    },
+    required: ['mode'],
+  };
+
+  test('accepts values that match the schema', () => {
+    assert.deepEqual(validateArgs(schema, { mode: 'fast', count: 2, files: [{ name: 'a.txt' }] }), []);
+  });
+
+  test('reports type mismatches with their path', () => {
+    assert.deepEqual(validateArgs(schema, []), ['args must be an object, got array']);
+    assert.deepEqual(validateArgs(schema, { mode: 'fast', count: 1.5 }), ['args.count must be an integer, got number']);
+    assert.deepEqual(validateArgs(schema, { mode: 'fast', files: [{ name: 'a' }, { name: 3 }] }), ['args.files[1].name must be a string, got integer']);
+  });
+
+  test('reports missing required keys and values outside the enum', () => {
+    assert.deepEqual(validateArgs(schema, { mode: null }), ['args.mode is required']);
+    assert.deepEqual(validateArgs(schema, { mode: 'slow' }), ['args.mode must be one of "fast", "safe"']);
+  });
+
+  test('accepts integers where a number is expected', () => {
+    assert.deepEqual(validateArgs({ type: 'number' }, 3), []);
+  });
+});
+
+describe('parseStepReply', () => {
+  test('reads a native function call', () => {
+    const result = parseStepReply(
+      { text: '', toolCall: { name: 'run_command', args: { step: 'generate_files', content: 'Running it.', command: 'npm start' } } },
+      tools
+    );
+    assert.deepEqual(result, { step: { step: 'generate_files', content: 'Running it.', function: 'run_command', args: { command: 'npm start' } } });
+  });
+
+  test('maps report_step to a step without a function', () => {
+    const result = parseStepReply({ text: '', toolCall: { name: 'report_step', args: { step: 'final_result', content: 'Done.' } } }, tools);
+    assert.deepEqual(result.step, { step: 'final_result', content: 'Done.', function: null, args: null });
+  });
+
+  test('reads the legacy JSON envelope from fenced text', () => {
+    const text = '```json\n{"step":"generate_files","content":"Run.","function":"run_command","args":{"command":"ls"}}\n```';
+    assert.deepEqual(parseStepReply({ text }, tools).step, { step: 'generate_files', content: 'Run.', function: 'run_command', args: { command: 'ls' } });
+    assert.equal(parseStepReply({ text: '{"step":"analyze","content":"Looking.","function":null,"args":null}' }, tools).step?.function, null);
+  });
+
+  test('rejects replies that are not a function call', () => {
+    assert.match(parseStepReply({ text: 'Sure, here you go!' }, tools).error!, /^Could not read a function call from your reply/);
+    assert.match(parseStepReply({ text: '[1, 2]' }, tools).error!, /reply is not a JSON object/);
+  });
+
+  test('rejects unknown functions and invalid arguments', () => {
+    assert.equal(
+      parseStepReply({ text: '', toolCall: { name: 'delete_everything', args: {} } }, tools).error,
+      'Unknown function "delete_everything". Available functions: report_step, run_command.'
+    );
+    assert.equal(
+      parseStepReply({ text: '', toolCall: { name: 'run_command', args: { step: 'done', content: 'x' } } }, tools).error,
+      'Invalid arguments for run_command: args.command is required; args.step must be one of "initialization", "analyze", "generate_structure", "generate_files", "final_result".'
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { after, describe, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findTemplate, loadTemplates } from '../src/templates';
+import { verifyProject, VerifyOptions } from '../src/verify';
+
+const tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'cursor2-verify-'));
+const options: VerifyOptions = { timeoutMs: 20000, approveTests: async () => false };
+
+after(() => fs.rmSync(tmp, { recursive: true, force: true }));
+
+const writeProject = (name: string, files: Record<string, string>): string => {
+  const dir = path.join(tmp, name);
+  Object.entries(files).forEach(([file, content]) => {
+    fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(dir, file), content);
+  });
+  return dir;
+};
+
+const reactFiles: Record<string, string> = {
+  'package.json': JSON.stringify({ name: 'todo-app', version: '1.0.0', dependencies: { react: '^18.2.0', 'react-dom': '^18.2.0', 'react-scripts': '5.0.1' }, scripts: { start: 'react-scripts start', test: 'react-scripts test' } }),
+  'public/index.html': '<!DOCTYPE html>\n<html lang="en">\n<head><title>Todo</title></head>\n<body><div id="root"></div></body>\n</html>\n',
+  'src/index.js': "import React from 'react';\nimport ReactDOM from 'react-dom/client';\nimport App from './App';\n\nReactDOM.createRoot(document.getElementById('root')).render(<App />);\n",
+  'src/App.js': "export default function App() {\n  return (\n    <div className=\"p-4\">\n      <h1>Todo</h1>\n    </div>\n  );\n}\n",
+  'README.md': '# todo-app\n',
+  'execute.md': '# Execution Instructions\n',
+};
+
+describe('verifyProject', () => {
+  test('passes the React template, whose .js files contain JSX', async () => {
+    const react = findTemplate(loadTemplates([]).templates, 'react')!;
+    assert.deepEqual(Object.keys(reactFiles).sort(), [...react.structure].sort());
+    const dir = writeProject('react', reactFiles);
+    const report = await verifyProject(dir, 'todo-app', react.structure, options);
+    assert.equal(report.passed, true, JSON.stringify(report.checks));
+    const jsChecks = report.checks.filter(check => check.target.endsWith('.js'));
+    assert.deepEqual(jsChecks.map(check => [check.target, check.status]), [
+      ['src/index.js', 'skipped'],
+      ['src/App.js', 'skipped'],
+    ]);
+  });
+
+  test('skips JSX files in projects without a React dependency', async () => {
+    const dir = writeProject('jsx-only', { 'app.js': 'const view = () => <main>Hello</main>;\n' });
+    const report = await verifyProject(dir, 'jsx-only', ['app.js'], options);
+    assert.equal(report.checks[0].status, 'skipped');
+  });
+
+  test('still runs node --check on plain JavaScript', async () => {
+    const dir = writeProject('plain', { 'ok.js': 'const less = (a, b) => a < b;\n', 'broken.js': 'function (\n' });
+    const report = await verifyProject(dir, 'plain', ['ok.js', 'broken.js'], options);
+    assert.deepEqual(report.checks.map(check => [check.target, check.status]), [
+      ['ok.js', 'passed'],
+      ['broken.js', 'failed'],
+    ]);
+    assert.equal(report.passed, false);
+  });
+});